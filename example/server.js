@@ -1,7 +1,12 @@
 import express from 'express';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { createVerstkaSDK } from '../dist/index.js';
+import {
+  createVerstkaSDK,
+  createExpressCallbackHandler,
+  rewriteHtmlAssetUrls,
+  MemorySaveStore,
+} from '../dist/index.js';
 import dotenv from 'dotenv';
 import localtunnel from 'localtunnel';
 import fs from 'fs/promises';
@@ -39,37 +44,20 @@ const verstka = createVerstkaSDK({
   apiKey: process.env.VERSTKA_API_KEY,
   secret: process.env.VERSTKA_SECRET,
   downloadConcurrency: 10, // Use 10 parallel downloads for this example
+  saveStore: new MemorySaveStore(), // Skip repeated callbacks and serialize saves per article
   debug: process.env.VERSTKA_DEBUG === 'true', // Enable debug logging via env variable
 });
 
 /**
  * Callback endpoint from Verstka to save articles
+ * Parses the body, verifies the signature, runs handleVerstkaSave
+ * and responds in Verstka format
  */
-app.post('/api/verstka/callback', async (req, res) => {
-  try {
-    console.log('📥 [Callback] Received from Verstka:', req.body);
-    
-    /**
-     * Use Verstka SDK method to process callback with handler
-     */
-    await verstka.save(req.body, handleVerstkaSave);
-    
-    /**
-     * Respond in Verstka format
-     */
-    res.json({
-      rc: 1,
-      rm: 'Article saved successfully using SDK.'
-    });
-    
-  } catch (error) {
-    console.error('❌ Error processing callback:', error);
-    res.status(500).json({
-      rc: 0,
-      rm: 'Server error: ' + error.message
-    });
-  }
-});
+app.post('/api/verstka/callback', createExpressCallbackHandler(verstka, {
+  saveHandler: handleVerstkaSave,
+  callbackUrl: getCallbackUrl,
+  successMessage: 'Article saved successfully using SDK.',
+}));
 
 /**
  * API routes for SDK demo
@@ -109,7 +97,7 @@ app.post('/api/edit-desktop', async (req, res) => {
     console.error('Error opening desktop editor:', error);
     res.status(500).json({ 
       error: error.message,
-      details: error.response?.rm || 'Unknown error'
+      details: error.rm || 'Unknown error'
     });
   }
 });
@@ -149,7 +137,7 @@ app.post('/api/edit-mobile', async (req, res) => {
     console.error('Error opening mobile editor:', error);
     res.status(500).json({ 
       error: error.message,
-      details: error.response?.rm || 'Unknown error'
+      details: error.rm || 'Unknown error'
     });
   }
 });
@@ -201,10 +189,7 @@ async function handleVerstkaSave({ fileMap, callbackData, failedFiles, isMobile
   const uploadDir = path.join('./uploads', folderName);
   await fs.mkdir(uploadDir, { recursive: true });
   
-  /**
-   * Start with original HTML
-   */
-  let updatedHtml = html_body || '';
+  const urlMap = {};
   const successfulFiles = [];
   const copyErrors = [];
   
@@ -221,14 +206,7 @@ async function handleVerstkaSave({ fileMap, callbackData, failedFiles, isMobile
       await fs.copyFile(tempPath, targetPath);
       console.log(`📋 [SaveHandler] Copied: ${fileName}`);
       
-      /**
-       * Immediately replace URLs for this file in HTML
-       */
-      if (updatedHtml) {
-        updatedHtml = replaceFilePathInHtml(updatedHtml, fileName, `/uploads/${folderName}/${fileName}`);
-        console.log(`🔗 [SaveHandler] Updated HTML paths for: ${fileName}`);
-      }
-      
+      urlMap[fileName] = `/uploads/${folderName}/${encodeURIComponent(fileName)}`;
       successfulFiles.push(fileName);
       
     } catch (error) {
@@ -238,9 +216,15 @@ async function handleVerstkaSave({ fileMap, callbackData, failedFiles, isMobile
   }
   
   /**
-   * Save updated HTML if provided
+   * Rewrite asset URLs in HTML to the copied files and save it
    */
-  if (updatedHtml) {
+  if (html_body) {
+    const { html: updatedHtml, missingReferences } = rewriteHtmlAssetUrls(html_body, urlMap);
+
+    if (missingReferences.length > 0) {
+      console.warn(`⚠️  [SaveHandler] HTML references missing files:`, missingReferences);
+    }
+
     const htmlPath = path.join(uploadDir, 'index.html');
     await fs.writeFile(htmlPath, updatedHtml, 'utf8');
     console.log(`💾 [SaveHandler] Saved updated HTML to: ${htmlPath}`);
@@ -312,23 +296,6 @@ function getHostName() {
   return 'localhost:3000';
 }
 
-/**
- * Replace URL for a specific file in HTML
- * @param {string} htmlBody - HTML content to process
- * @param {string} fileName - Name of the file to replace
- * @param {string} newPath - New path for the file
- * @returns {string} HTML with replaced path for the specific file
- */
-function replaceFilePathInHtml(htmlBody, fileName, newPath) {
-  if (!htmlBody || !fileName) return htmlBody;
-  
-  /**
-   * Replace /vms_images/{fileName} with new path
-   */
-  const vmsPattern = new RegExp(`\\/vms_images\\/${fileName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'gi');
-  return htmlBody.replace(vmsPattern, newPath);
-}
-
 /**
  * Start server with automatic tunnel setup
  */
@@ -1,5 +1,10 @@
-import { createHash } from 'crypto';
-import type { VerstkaConfig, OpenEditorParams, CallbackVerificationParams } from './types.js';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type {
+  VerstkaConfig,
+  OpenEditorParams,
+  CallbackVerificationParams,
+  CallbackTokenClaims,
+} from './types.js';
 
 /**
  * Authentication handler for Verstka API
@@ -42,7 +47,7 @@ export class VerstkaAuth {
   /**
    * Verify callback signature
    * Generates MD5 from: secret + api-key + material_id + user_id + callback_url
-   * and compares with provided signature
+   * and compares with provided signature in constant time
    */
   verifyCallbackSignature(params: CallbackVerificationParams): boolean {
     const components = [
@@ -56,7 +61,58 @@ export class VerstkaAuth {
     const concatenated = components.join('');
     const expectedSignature = createHash('md5').update(concatenated).digest('hex');
 
-    return expectedSignature === params.callback_sign;
+    const expected = Buffer.from(expectedSignature, 'utf8');
+    const provided = Buffer.from(String(params.callback_sign || '').toLowerCase(), 'utf8');
+
+    if (expected.length !== provided.length) {
+      return false;
+    }
+
+    return timingSafeEqual(expected, provided);
+  }
+
+  /**
+   * Generate callback token for a per-session callback URL
+   * base64url(JSON claims) + '.' + base64url(HMAC-SHA256 of the claims part with the secret)
+   */
+  generateCallbackToken(claims: CallbackTokenClaims): string {
+    const payload = Buffer.from(JSON.stringify(claims), 'utf8').toString('base64url');
+    return `${payload}.${this.signCallbackToken(payload)}`;
+  }
+
+  /**
+   * Verify callback token signature and read its claims
+   * Expiry is not checked here.
+   *
+   * @returns Claims, or undefined if the token is malformed or not signed with the secret
+   */
+  verifyCallbackToken(token: string): CallbackTokenClaims | undefined {
+    const [payload, signature, ...rest] = token.split('.');
+
+    if (!payload || !signature || rest.length > 0) {
+      return undefined;
+    }
+
+    const expected = Buffer.from(this.signCallbackToken(payload), 'utf8');
+    const provided = Buffer.from(signature, 'utf8');
+
+    if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+      return undefined;
+    }
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as CallbackTokenClaims;
+
+      return typeof claims.id === 'string'
+        && typeof claims.materialId === 'string'
+        && typeof claims.userId === 'string'
+        && typeof claims.isMobile === 'boolean'
+        && typeof claims.expiresAt === 'number'
+        ? claims
+        : undefined;
+    } catch {
+      return undefined;
+    }
   }
 
   /**
@@ -64,8 +120,14 @@ export class VerstkaAuth {
    */
   getHeaders(): Record<string, string> {
     return {
-      'Content-Type': 'multipart/form-data',
       'User-Agent': 'Verstka-NodeJS-SDK/1.0.0',
     };
   }
+
+  /**
+   * HMAC of the claims part of a callback token
+   */
+  private signCallbackToken(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,165 @@
+/**
+ * Content-addressed cache of downloaded files
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import type { AssetCache, AssetManifest, FileChanges } from './types.js';
+import { VerstkaValidationError } from './errors.js';
+import { getSafeFileName, readDir, readJsonFile, writeFileAtomic } from './fsStore.js';
+
+/**
+ * Options for file-based asset cache
+ */
+export interface FileAssetCacheOptions {
+  /** Directory for cached files and manifests */
+  dir: string;
+}
+
+/**
+ * Compare downloaded files with the manifest of the previous save
+ *
+ * @param previous - Manifest of the previous save
+ * @param current - Manifest entries of the downloaded files
+ * @param fileNames - All files of the current save, including failed ones
+ * @returns Added, changed, unchanged and removed files
+ */
+export function compareManifests(
+  previous: AssetManifest | undefined,
+  current: AssetManifest,
+  fileNames: string[]
+): FileChanges {
+  const changes: FileChanges = { added: [], changed: [], unchanged: [], removed: [] };
+  const names = new Set(fileNames);
+
+  for (const [fileName, entry] of Object.entries(current)) {
+    const previousEntry = previous?.[fileName];
+
+    if (!previousEntry) {
+      changes.added.push(fileName);
+    } else if (previousEntry.hash === entry.hash) {
+      changes.unchanged.push(fileName);
+    } else {
+      changes.changed.push(fileName);
+    }
+  }
+
+  for (const fileName of Object.keys(previous || {})) {
+    if (!names.has(fileName)) {
+      changes.removed.push(fileName);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Asset cache storing files under <dir>/blobs/<hash> and manifests under <dir>/manifests
+ * Files are shared between materials, so an image used by several articles is kept once.
+ */
+export class FileAssetCache implements AssetCache {
+  private dir: string;
+
+  constructor(options: FileAssetCacheOptions) {
+    this.dir = path.resolve(options.dir);
+  }
+
+  /**
+   * Read manifest for key
+   */
+  async getManifest(key: string): Promise<AssetManifest | undefined> {
+    return readJsonFile<AssetManifest>(this.getManifestPath(key));
+  }
+
+  /**
+   * Write manifest for key atomically
+   */
+  async setManifest(key: string, manifest: AssetManifest): Promise<void> {
+    await writeFileAtomic(this.getManifestPath(key), JSON.stringify(manifest));
+  }
+
+  /**
+   * Check whether content with hash is cached
+   */
+  async has(hash: string): Promise<boolean> {
+    try {
+      await fs.access(this.getBlobPath(hash));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Copy cached content to filePath
+   */
+  async restore(hash: string, filePath: string): Promise<void> {
+    await fs.copyFile(this.getBlobPath(hash), filePath);
+  }
+
+  /**
+   * Copy filePath into the cache unless content with hash is already there
+   */
+  async put(hash: string, filePath: string): Promise<void> {
+    const blobPath = this.getBlobPath(hash);
+
+    if (await this.has(hash)) {
+      return;
+    }
+
+    await fs.mkdir(path.dirname(blobPath), { recursive: true });
+
+    const tempPath = `${blobPath}.${randomUUID()}.tmp`;
+    await fs.copyFile(filePath, tempPath);
+    await fs.rename(tempPath, blobPath);
+  }
+
+  /**
+   * Remove cached files no manifest refers to
+   */
+  async prune(): Promise<number> {
+    const referenced = new Set<string>();
+    const manifestsDir = path.join(this.dir, 'manifests');
+
+    for (const name of await readDir(manifestsDir)) {
+      if (!name.endsWith('.json')) continue;
+
+      const content = await fs.readFile(path.join(manifestsDir, name), 'utf8').catch(() => '{}');
+      const manifest = JSON.parse(content) as AssetManifest;
+      Object.values(manifest).forEach(entry => referenced.add(entry.hash));
+    }
+
+    let removed = 0;
+    const blobsDir = path.join(this.dir, 'blobs');
+
+    for (const prefix of await readDir(blobsDir)) {
+      for (const name of await readDir(path.join(blobsDir, prefix))) {
+        if (referenced.has(name)) continue;
+
+        await fs.rm(path.join(blobsDir, prefix, name), { force: true });
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Map hash to a path inside dir, rejecting anything but a SHA-256 hex digest
+   */
+  private getBlobPath(hash: string): string {
+    if (!/^[a-f0-9]{64}$/.test(hash)) {
+      throw new VerstkaValidationError('INVALID_HASH', `Invalid asset hash: ${hash}`);
+    }
+
+    return path.join(this.dir, 'blobs', hash.substring(0, 2), hash);
+  }
+
+  /**
+   * Map key to a safe manifest file name inside dir
+   */
+  private getManifestPath(key: string): string {
+    return path.join(this.dir, 'manifests', `${getSafeFileName(key)}.json`);
+  }
+}
@@ -0,0 +1,341 @@
+#!/usr/bin/env node
+/**
+ * verstka command-line tool for debugging integrations
+ * Configured from the environment or .env: VERSTKA_API_KEY, VERSTKA_SECRET, VERSTKA_BASE_URL,
+ * VERSTKA_CALLBACK_URL, VERSTKA_HOST_NAME, VERSTKA_USER_ID, VERSTKA_DEV, VERSTKA_DEBUG.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+import type { CallbackData, VerstkaSdkOptions } from './types.js';
+import { createVerstkaSDK } from './index.js';
+import { VerstkaAuth } from './auth.js';
+import { createLogger } from './logger.js';
+import { downloadFiles } from './download.js';
+import { parseCallbackBody } from './handlers.js';
+import { getDefaultTransport } from './transport.js';
+
+const USAGE = `Usage: verstka <command> [options]
+
+Commands:
+  open <material-id>                 Open editor and print its URL
+      --mobile                       Open the mobile version
+      --html-file <path>             Send HTML from file
+      --user-id <id>                 User ID (default: VERSTKA_USER_ID or "cli")
+      --callback-url <url>           Callback URL (default: VERSTKA_CALLBACK_URL)
+      --host-name <url>              Host name for images (default: VERSTKA_HOST_NAME)
+  sign <callback.json>               Print callback JSON with callback_sign set
+      --callback-url <url>           Callback URL the editor was opened with
+  verify <callback.json>             Check callback_sign, exit code 1 if invalid
+      --callback-url <url>           Callback URL the editor was opened with
+  download <download-url> <dir>      Download session bundle to dir
+      --concurrency <n>              Parallel downloads (default: 20)
+  replay <callback.json> <endpoint>  POST saved callback to a callback endpoint
+      --form                         Send as application/x-www-form-urlencoded (default: JSON)
+      --sign                         Sign again for --callback-url (default: endpoint)
+
+Options:
+  --env-file <path>                  File with environment variables (default: .env)
+  --api-key <key>                    API key (default: VERSTKA_API_KEY)
+  --secret <secret>                  Secret (default: VERSTKA_SECRET)
+  --base-url <url>                   API base URL (default: VERSTKA_BASE_URL)
+  --dev                              Use dev.verstka.org
+  --debug                            Print debug logs
+  -h, --help                         Show this help
+`;
+
+/**
+ * Parsed command line
+ */
+type CliArgs = ReturnType<typeof parse>;
+
+/**
+ * Parse command line arguments
+ */
+function parse(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      mobile: { type: 'boolean' },
+      'html-file': { type: 'string' },
+      'user-id': { type: 'string' },
+      'callback-url': { type: 'string' },
+      'host-name': { type: 'string' },
+      concurrency: { type: 'string' },
+      form: { type: 'boolean' },
+      sign: { type: 'boolean' },
+      'env-file': { type: 'string' },
+      'api-key': { type: 'string' },
+      secret: { type: 'string' },
+      'base-url': { type: 'string' },
+      dev: { type: 'boolean' },
+      debug: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
+
+/**
+ * Thrown for invalid usage, printed without stack trace
+ */
+class CliUsageError extends Error {}
+
+/**
+ * Run command and return exit code
+ */
+async function main(argv: string[]): Promise<number> {
+  let args: CliArgs;
+
+  try {
+    args = parse(argv);
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const [command, ...positionals] = args.positionals;
+
+  if (args.values.help || !command) {
+    process.stdout.write(USAGE);
+    return command || args.values.help ? 0 : 1;
+  }
+
+  loadEnv(args.values['env-file']);
+
+  switch (command) {
+    case 'open':
+      return openCommand(args, positionals);
+    case 'sign':
+      return signCommand(args, positionals);
+    case 'verify':
+      return verifyCommand(args, positionals);
+    case 'download':
+      return downloadCommand(args, positionals);
+    case 'replay':
+      return replayCommand(args, positionals);
+    default:
+      throw new CliUsageError(`Unknown command: ${command}`);
+  }
+}
+
+/**
+ * Load .env, a missing default file is ignored
+ */
+function loadEnv(envFile: string | undefined): void {
+  const result = dotenv.config(envFile ? { path: envFile } : {});
+
+  if (envFile && result.error) {
+    throw new CliUsageError(`Cannot read env file ${envFile}: ${result.error.message}`);
+  }
+}
+
+/**
+ * SDK options from arguments and environment
+ */
+function getSdkOptions(args: CliArgs): VerstkaSdkOptions {
+  const { values } = args;
+  const apiKey = values['api-key'] || process.env.VERSTKA_API_KEY;
+  const secret = values.secret || process.env.VERSTKA_SECRET;
+  const baseUrl = values['base-url'] || process.env.VERSTKA_BASE_URL;
+  const debug = values.debug || process.env.VERSTKA_DEBUG === 'true';
+
+  if (!apiKey || !secret) {
+    throw new CliUsageError('API key and secret are required: set VERSTKA_API_KEY and VERSTKA_SECRET');
+  }
+
+  return {
+    apiKey,
+    secret,
+    debug,
+    dev: values.dev || process.env.VERSTKA_DEV === 'true',
+    logLevel: debug ? 'debug' : 'warn',
+    ...(baseUrl ? { baseUrl } : {}),
+  };
+}
+
+/**
+ * Get required positional argument
+ */
+function requireArg(positionals: string[], index: number, name: string): string {
+  const value = positionals[index];
+
+  if (!value) {
+    throw new CliUsageError(`Missing argument: ${name}`);
+  }
+
+  return value;
+}
+
+/**
+ * Get option falling back to an environment variable
+ */
+function requireOption(value: string | undefined, envName: string, option: string): string {
+  const result = value || process.env[envName];
+
+  if (!result) {
+    throw new CliUsageError(`Missing ${option} (or ${envName})`);
+  }
+
+  return result;
+}
+
+/**
+ * Read callback JSON file
+ */
+async function readCallback(filePath: string): Promise<CallbackData> {
+  const content = await fs.readFile(filePath, 'utf8');
+  return parseCallbackBody(content, 'application/json');
+}
+
+/**
+ * verstka open
+ */
+async function openCommand(args: CliArgs, positionals: string[]): Promise<number> {
+  const { values } = args;
+  const materialId = requireArg(positionals, 0, 'material-id');
+  const verstka = createVerstkaSDK(getSdkOptions(args));
+  const htmlFile = values['html-file'];
+
+  const session = await verstka.openEditor({
+    materialId,
+    userId: values['user-id'] || process.env.VERSTKA_USER_ID || 'cli',
+    callbackUrl: requireOption(values['callback-url'], 'VERSTKA_CALLBACK_URL', '--callback-url'),
+    hostName: requireOption(values['host-name'], 'VERSTKA_HOST_NAME', '--host-name'),
+    isMobile: Boolean(values.mobile),
+    ...(htmlFile ? { htmlBody: await fs.readFile(htmlFile, 'utf8') } : {}),
+  });
+
+  process.stdout.write(`${session.editUrl}\n`);
+  process.stderr.write(`session_id: ${session.sessionId}\n`);
+
+  if (session.lackingPictures?.length) {
+    process.stderr.write(`lacking_pictures: ${session.lackingPictures.join(', ')}\n`);
+  }
+
+  return 0;
+}
+
+/**
+ * verstka sign
+ */
+async function signCommand(args: CliArgs, positionals: string[]): Promise<number> {
+  const callbackData = await readCallback(requireArg(positionals, 0, 'callback.json'));
+  const callbackUrl = requireOption(args.values['callback-url'], 'VERSTKA_CALLBACK_URL', '--callback-url');
+  const signed = signCallback(new VerstkaAuth(getSdkOptions(args)), callbackData, callbackUrl);
+
+  process.stdout.write(`${JSON.stringify(signed, null, 2)}\n`);
+  return 0;
+}
+
+/**
+ * verstka verify
+ */
+async function verifyCommand(args: CliArgs, positionals: string[]): Promise<number> {
+  const callbackData = await readCallback(requireArg(positionals, 0, 'callback.json'));
+  const callbackUrl = requireOption(args.values['callback-url'], 'VERSTKA_CALLBACK_URL', '--callback-url');
+
+  const isValid = new VerstkaAuth(getSdkOptions(args)).verifyCallbackSignature({
+    material_id: callbackData.material_id,
+    user_id: callbackData.user_id || '',
+    callback_url: callbackUrl,
+    callback_sign: callbackData.callback_sign || '',
+  });
+
+  process.stdout.write(isValid ? 'Signature is valid\n' : 'Signature is invalid\n');
+  return isValid ? 0 : 1;
+}
+
+/**
+ * verstka download
+ */
+async function downloadCommand(args: CliArgs, positionals: string[]): Promise<number> {
+  const downloadUrl = requireArg(positionals, 0, 'download-url');
+  const dir = path.resolve(requireArg(positionals, 1, 'dir'));
+  const concurrency = Number(args.values.concurrency || 20);
+
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new CliUsageError('--concurrency must be a positive integer');
+  }
+
+  const debug = Boolean(args.values.debug || process.env.VERSTKA_DEBUG === 'true');
+  const logger = createLogger({ debug, prefix: 'Verstka', level: debug ? 'debug' : 'warn' });
+  const result = await downloadFiles(downloadUrl, dir, { concurrency }, logger);
+
+  for (const [fileName, filePath] of Object.entries(result.fileMap)) {
+    process.stdout.write(`${fileName} -> ${filePath}\n`);
+  }
+
+  for (const failedFile of result.failedFiles) {
+    process.stderr.write(`failed: ${failedFile.fileName} (${failedFile.reason || 'UNKNOWN'}) ${failedFile.error}\n`);
+  }
+
+  return result.failedFiles.length > 0 ? 1 : 0;
+}
+
+/**
+ * verstka replay
+ */
+async function replayCommand(args: CliArgs, positionals: string[]): Promise<number> {
+  const { values } = args;
+  let callbackData = await readCallback(requireArg(positionals, 0, 'callback.json'));
+  const endpoint = requireArg(positionals, 1, 'endpoint');
+
+  if (values.sign) {
+    const callbackUrl = values['callback-url'] || endpoint;
+    callbackData = signCallback(new VerstkaAuth(getSdkOptions(args)), callbackData, callbackUrl);
+  }
+
+  const body = values.form
+    ? new URLSearchParams(
+      Object.entries(callbackData).map(([key, value]) => [
+        key,
+        typeof value === 'string' ? value : JSON.stringify(value),
+      ])
+    ).toString()
+    : JSON.stringify(callbackData);
+
+  const response = await getDefaultTransport().request({
+    url: endpoint,
+    method: 'POST',
+    headers: {
+      'content-type': values.form ? 'application/x-www-form-urlencoded' : 'application/json',
+    },
+    body,
+  });
+
+  process.stdout.write(`HTTP ${response.status}\n${await response.text()}\n`);
+  return response.ok ? 0 : 1;
+}
+
+/**
+ * Set callback_sign the way Verstka signs callbacks
+ */
+function signCallback(auth: VerstkaAuth, callbackData: CallbackData, callbackUrl: string): CallbackData {
+  return {
+    ...callbackData,
+    callback_sign: auth.generateCallbackSignature({
+      materialId: callbackData.material_id,
+      userId: callbackData.user_id || '',
+      callbackUrl,
+      hostName: '',
+    }),
+  };
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    if (error instanceof CliUsageError) {
+      process.stderr.write(`${error.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+      return;
+    }
+
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = 1;
+  }
+);
@@ -1,20 +1,42 @@
-import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import type { 
-  VerstkaConfig, 
   VerstkaApiResponse, 
   VerstkaSdkOptions 
 } from './types.js';
 import { VerstkaAuth } from './auth.js';
-import { VerstkaLogger, createLogger } from './logger.js';
+import { createLogger, withLogLevel } from './logger.js';
+import type { Logger } from './logger.js';
+import { VerstkaEventEmitter } from './events.js';
+import { noopTracer, noopMetrics } from './telemetry.js';
+import { NodeHttpTransport, withInterceptors } from './transport.js';
+import type { HttpTransport } from './transport.js';
+import type { VerstkaTracer, VerstkaMetrics } from './telemetry.js';
+import {
+  VerstkaApiError,
+  VerstkaError,
+  VerstkaNetworkError,
+  VerstkaTimeoutError,
+} from './errors.js';
+
+/**
+ * Per-request options of API calls
+ */
+export interface ApiRequestOptions {
+  /** Additional request headers */
+  headers?: Record<string, string>;
+  /** Timeout in milliseconds (default: client timeout) */
+  timeout?: number;
+}
 
 /**
  * Main Verstka API client
  */
 export class VerstkaClient {
-  private config: VerstkaConfig & { debug: boolean };
+  private config: VerstkaSdkOptions & { debug: boolean };
+  private baseUrl: string;
   private auth: VerstkaAuth;
-  private httpClient: AxiosInstance;
-  private logger: VerstkaLogger;
+  private transport: HttpTransport;
+  private logger: Logger;
+  private events: VerstkaEventEmitter;
 
   constructor(options: VerstkaSdkOptions) {
     const defaultBaseUrl = options.dev ? 'https://dev.verstka.org/api' : 'https://verstka.org/api';
@@ -25,18 +47,17 @@ export class VerstkaClient {
       debug: false,
       ...options,
     };
+    this.baseUrl = options.baseUrl || defaultBaseUrl;
     
     this.auth = new VerstkaAuth(this.config);
-    this.logger = createLogger({ 
-      debug: this.config.debug,
-      prefix: 'Verstka'
-    });
+    this.logger = this.createLogger();
+    this.events = new VerstkaEventEmitter(this.logger);
 
-    this.httpClient = axios.create({
-      baseURL: this.config.baseUrl!,
-      timeout: this.config.timeout!,
-      headers: this.auth.getHeaders(),
-    });
+    this.transport = withInterceptors(
+      this.config.transport || new NodeHttpTransport(this.config.http),
+      { ...this.auth.getHeaders(), ...this.config.headers },
+      this.config.interceptors
+    );
   }
 
   /**
@@ -46,39 +67,186 @@ export class VerstkaClient {
     return this.auth;
   }
 
+  /**
+   * Get API base URL, the default Verstka URL when baseUrl is not set
+   */
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
   /**
    * Get current configuration
    */
-  getConfig(): VerstkaConfig {
+  getConfig(): VerstkaSdkOptions {
     return this.config;
   }
 
   /**
    * Get logger instance
    */
-  getLogger(): VerstkaLogger {
+  getLogger(): Logger {
     return this.logger;
   }
 
+  /**
+   * Get tracer (no-op unless configured)
+   */
+  getTracer(): VerstkaTracer {
+    return this.config.tracer || noopTracer;
+  }
+
+  /**
+   * Get metrics sink (no-op unless configured)
+   */
+  getMetrics(): VerstkaMetrics {
+    return this.config.metrics || noopMetrics;
+  }
+
+  /**
+   * Get HTTP transport with default headers and interceptors applied
+   */
+  getTransport(): HttpTransport {
+    return this.transport;
+  }
+
+  /**
+   * Get event emitter
+   */
+  getEvents(): VerstkaEventEmitter {
+    return this.events;
+  }
+
+  /**
+   * Use injected logger or the console logger, applying logLevel
+   */
+  private createLogger(): Logger {
+    const { logger, logLevel, debug } = this.config;
+
+    if (logger) {
+      return logLevel ? withLogLevel(logger, logLevel) : logger;
+    }
+
+    return createLogger({
+      debug,
+      prefix: 'Verstka',
+      ...(logLevel ? { level: logLevel } : {}),
+    });
+  }
+
   /**
    * Make POST request to Verstka API
+   * Plain objects are sent as JSON, FormData as multipart/form-data.
+   * @throws VerstkaApiError, VerstkaNetworkError or VerstkaTimeoutError
    */
   async post<T = any>(
     endpoint: string, 
     data: FormData | Record<string, any>,
-    config?: AxiosRequestConfig
+    options?: ApiRequestOptions
   ): Promise<VerstkaApiResponse<T>> {
-    return this.httpClient.post(endpoint, data, config);
+    const isFormData = data instanceof FormData;
+
+    return this.request(endpoint, 'POST', options, {
+      body: isFormData ? data : JSON.stringify(data),
+      ...(isFormData ? {} : { contentType: 'application/json' }),
+    });
   }
 
   /**
    * Make GET request to Verstka API
+   * @throws VerstkaApiError, VerstkaNetworkError or VerstkaTimeoutError
    */
   async get<T = any>(
     endpoint: string,
-    config?: AxiosRequestConfig
+    options?: ApiRequestOptions
+  ): Promise<VerstkaApiResponse<T>> {
+    return this.request(endpoint, 'GET', options);
+  }
+
+  /**
+   * Send request, check rc and map failures to SDK errors
+   */
+  private async request<T>(
+    endpoint: string,
+    method: string,
+    options: ApiRequestOptions = {},
+    payload?: { body: string | FormData; contentType?: string }
   ): Promise<VerstkaApiResponse<T>> {
-    return this.httpClient.get(endpoint, config);
+    const timeout = options.timeout ?? this.config.timeout!;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    let status: number;
+    let body: VerstkaApiResponse<T> | undefined;
+
+    try {
+      const response = await this.transport.request({
+        url: this.getUrl(endpoint),
+        method,
+        headers: {
+          ...(payload?.contentType ? { 'content-type': payload.contentType } : {}),
+          ...options.headers,
+        },
+        ...(payload ? { body: payload.body } : {}),
+        signal: controller.signal,
+      });
+
+      status = response.status;
+      body = parseBody<T>(await response.text());
+
+      if (!response.ok) {
+        throw new VerstkaApiError(
+          `Verstka API error on ${endpoint}: HTTP ${status}${body?.rm ? ` ${body.rm}` : ''}`,
+          {
+            endpoint,
+            status,
+            ...(body ? { rc: body.rc, rm: body.rm, response: body } : {}),
+          }
+        );
+      }
+    } catch (error) {
+      throw this.mapRequestError(endpoint, error, controller.signal.aborted ? timeout : undefined);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!body || body.rc !== 1) {
+      const rm = body?.rm;
+      throw new VerstkaApiError(`Verstka API error on ${endpoint}: ${rm || 'Unknown error'}`, {
+        endpoint,
+        status,
+        ...(body ? { rc: body.rc, response: body } : {}),
+        ...(rm ? { rm } : {}),
+      });
+    }
+
+    return body;
+  }
+
+  /**
+   * Join endpoint with baseUrl, absolute URLs are used as is
+   */
+  private getUrl(endpoint: string): string {
+    if (/^https?:\/\//.test(endpoint)) {
+      return endpoint;
+    }
+
+    return `${this.baseUrl.replace(/\/+$/, '')}/${endpoint.replace(/^\/+/, '')}`;
+  }
+
+  /**
+   * Convert transport error to SDK error
+   */
+  private mapRequestError(endpoint: string, error: unknown, timeout: number | undefined): VerstkaError {
+    if (error instanceof VerstkaError) {
+      return error;
+    }
+
+    if (timeout !== undefined) {
+      return new VerstkaTimeoutError(endpoint, timeout, error);
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new VerstkaNetworkError(`Request to ${endpoint} failed: ${message}`, endpoint, error);
   }
 
   /**
@@ -99,4 +267,16 @@ export class VerstkaClient {
 
     return formData;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Parse API response body, undefined when it is not a JSON object
+ */
+function parseBody<T>(text: string): VerstkaApiResponse<T> | undefined {
+  try {
+    const body = JSON.parse(text);
+    return body && typeof body === 'object' ? body as VerstkaApiResponse<T> : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -2,17 +2,80 @@
  * Content management module
  */
 
+import { randomUUID } from 'crypto';
 import type {
   OpenEditorParams,
   GetEditorUrlParams,
   OpenEditorResponse,
+  OpenEditorApiData,
   CustomFields,
   CallbackData,
   SaveHandler,
   SaveHandlerParams,
+  SaveOptions,
+  SaveResult,
+  SaveRecord,
+  SaveJob,
+  SaveMode,
+  SaveFileMap,
+  StreamMap,
+  FileMap,
+  DownloadOptions,
+  DownloadResult,
+  RewriteHtmlResult,
+  Revision,
+  RevisionDiff,
+  RevisionStore,
+  RollbackParams,
+  RollbackResult,
+  EditorSession,
+  EditorSessionFilter,
+  EditorSessionRegistry,
+  VerstkaEventContext,
 } from './types.js';
 import { VerstkaClient } from './client.js';
-import { downloadFiles, createTempDirectory } from './download.js';
+import {
+  downloadFiles,
+  downloadFilesToMemory,
+  openFileStreams,
+  createTempDirectory,
+  removeTempDirectory,
+  sweepTempDirectories,
+} from './download.js';
+import {
+  VerstkaApiError,
+  VerstkaSignatureError,
+  VerstkaDownloadError,
+  VerstkaPayloadError,
+  VerstkaConfigurationError,
+  VerstkaNotFoundError,
+} from './errors.js';
+import { publishFiles } from './storage.js';
+import { rewriteHtmlAssetUrls } from './html.js';
+import { uploadLackingPictures } from './pictures.js';
+import {
+  buildSaveKey,
+  getSaveFingerprint,
+  getSaveOutcome,
+  createSaveRecord,
+  stripMobilePrefix,
+} from './idempotency.js';
+import { SaveWorker, createSaveJob } from './queue.js';
+import { diffRevisions } from './revisions.js';
+import {
+  DEFAULT_CALLBACK_TOKEN_TTL,
+  appendCallbackToken,
+  matchEditorSession,
+} from './sessions.js';
+import type { Logger } from './logger.js';
+import { SaveProgressTracker } from './events.js';
+import { METRICS } from './telemetry.js';
+import type { SaveWorkerOptions } from './queue.js';
+
+/**
+ * Default cap of files kept in memory per save in memory mode
+ */
+const DEFAULT_MAX_MEMORY_SIZE = 100 * 1024 * 1024;
 
 /**
  * Content manager for Verstka articles and projects
@@ -24,15 +87,69 @@ export class VerstkaContentManager {
     this.client = client;
   }
 
+  /**
+   * Get logger of the client
+   */
+  getLogger(): Logger {
+    return this.client.getLogger();
+  }
+
   /**
    * Unified method to get editor URL for desktop or mobile version
-   * Replaces openEditor and openMobileEditor methods with single interface
+   * Thin wrapper around openEditor
    * 
    * @param params - Parameters including isMobile flag to determine editor type
    * @returns Editor URL for opening the editor
+   * @throws VerstkaApiError, VerstkaNetworkError or VerstkaTimeoutError if the request fails
    */
   async getEditorUrl(params: GetEditorUrlParams): Promise<string> {
-    const { isMobile, customFields, ...baseParams } = params;
+    const session = await this.openEditor(params);
+    return session.editUrl;
+  }
+
+  /**
+   * Open editor session for desktop or mobile version
+   * 
+   * @param params - Parameters including isMobile flag to determine editor type
+   * @returns Editor session with edit URL, session ID and lacking pictures
+   * @throws VerstkaApiError, VerstkaNetworkError or VerstkaTimeoutError if the request fails
+   */
+  async openEditor(params: GetEditorUrlParams): Promise<OpenEditorResponse> {
+    const startTime = Date.now();
+    const span = this.client.getTracer().startSpan('verstka.open_editor', {
+      'verstka.material_id': params.materialId.replace(/^M/, ''),
+      'verstka.is_mobile': Boolean(params.isMobile),
+    });
+
+    try {
+      const session = await this.requestEditor(params);
+      span.setAttributes({
+        ...(session.sessionId ? { 'verstka.session_id': session.sessionId } : {}),
+        'verstka.lacking_pictures': session.lackingPictures?.length ?? 0,
+      });
+      return session;
+    } catch (error) {
+      span.recordException(error);
+      span.setError(error instanceof Error ? error.message : 'Open editor failed');
+      throw error;
+    } finally {
+      span.end();
+      this.client.getMetrics().record(METRICS.EDITOR_OPEN_DURATION, Date.now() - startTime);
+    }
+  }
+
+  /**
+   * Call /open and upload lacking pictures
+   */
+  private async requestEditor(params: GetEditorUrlParams): Promise<OpenEditorResponse> {
+    const {
+      isMobile,
+      customFields,
+      lackingPictures: lackingPicturesOptions,
+      callbackToken,
+      ...baseParams
+    } = params;
+    const config = this.client.getConfig();
     
     /**
      * Prepare material ID based on mobile flag
@@ -41,6 +158,8 @@ export class VerstkaContentManager {
       ? (params.materialId.startsWith('M') ? params.materialId : `M${params.materialId}`)
       : params.materialId;
 
+    const logger = this.client.getLogger().child({ material_id: materialId });
+
     /**
      * Prepare custom fields with mobile flag
      */
@@ -49,11 +168,19 @@ export class VerstkaContentManager {
       mobile: (isMobile ? 'M' : '') as CustomFields['mobile'],
     };
 
+    /**
+     * Issue per-session callback URL with a signed token
+     */
+    const editorSession = (callbackToken ?? config.callbackTokens)
+      ? this.createEditorSession(params)
+      : undefined;
+
     /**
      * Build OpenEditorParams for signature generation
      */
     const editorParams: OpenEditorParams = {
       ...baseParams,
+      ...(editorSession ? { callbackUrl: editorSession.callbackUrl } : {}),
       materialId,
       customFields: finalCustomFields,
     };
@@ -71,7 +198,7 @@ export class VerstkaContentManager {
       user_id: params.userId,
       html_body: params.htmlBody || '',
       'api-key': this.client.getAuth().getApiKey(),
-      callback_url: params.callbackUrl,
+      callback_url: editorParams.callbackUrl,
       host_name: params.hostName,
       user_ip: params.userIp,
       callback_sign: callbackSign,
@@ -81,78 +208,974 @@ export class VerstkaContentManager {
     /**
      * Make API request
      */
-    const response = await this.client.post<{data: {edit_url: string}}>('/open', formData);
+    const response = await this.client.post<OpenEditorApiData>('/open', formData);
+    const data = response.data;
+
+    if (!data?.edit_url) {
+      throw new VerstkaApiError('Verstka API error on /open: edit_url is missing in response', {
+        endpoint: '/open',
+        rc: response.rc,
+        rm: response.rm,
+        response,
+      });
+    }
+
+    const lackingPictures = Array.isArray(data.lacking_pictures) ? data.lacking_pictures : [];
+    const session: OpenEditorResponse = {
+      sessionId: data.session_id || '',
+      editUrl: data.edit_url,
+      ...(data.last_save !== undefined ? { lastSave: data.last_save } : {}),
+      ...(data.contents !== undefined ? { contents: data.contents } : {}),
+      ...(data.client_folder !== undefined ? { clientFolder: data.client_folder } : {}),
+      lackingPictures,
+      ...(data.upload_url !== undefined ? { uploadUrl: data.upload_url } : {}),
+    };
+
+    /**
+     * Register the session so that its callbacks can be listed and revoked
+     */
+    if (editorSession) {
+      session.editorSession = {
+        ...editorSession,
+        ...(session.sessionId ? { sessionId: session.sessionId } : {}),
+      };
+      await config.sessionRegistry?.set(session.editorSession);
+    }
+
+    /**
+     * Upload lacking pictures before the editor is opened
+     */
+    if (lackingPicturesOptions && lackingPictures.length > 0) {
+      if (!session.uploadUrl) {
+        logger.warn(
+          `Cannot upload lacking pictures for material ${materialId}: upload_url is missing in response`
+        );
+      } else {
+        const retries = lackingPicturesOptions.retries ?? config.downloadRetries;
+        const retryDelay = lackingPicturesOptions.retryDelay ?? config.downloadRetryDelay;
+
+        session.pictureUploads = await uploadLackingPictures(
+          session.uploadUrl,
+          lackingPictures,
+          lackingPicturesOptions.resolver,
+          {
+            concurrency: lackingPicturesOptions.concurrency || 5,
+            timeout: lackingPicturesOptions.timeout || config.timeout || 30000,
+            ...(retries !== undefined ? { retries } : {}),
+            ...(retryDelay !== undefined ? { retryDelay } : {}),
+            transport: this.client.getTransport(),
+          },
+          logger
+        );
+      }
+    }
+
+    logger.debug(
+      `Editor session ${session.sessionId} opened for material: ${materialId}`
+    );
 
-    return response.data?.data?.edit_url || '';
+    this.client.getEvents().emit('editor:open', {
+      materialId: params.materialId.replace(/^M/, ''),
+      isMobile,
+      ...(session.sessionId ? { sessionId: session.sessionId } : {}),
+      editUrl: session.editUrl,
+      lackingPictures,
+    });
+
+    if (lackingPictures.length > 0) {
+      logger.warn(
+        `Editor reports ${lackingPictures.length} lacking pictures for material ${materialId}:`,
+        lackingPictures
+      );
+    }
+
+    return session;
+  }
+
+  /**
+   * Create editor session with a callback URL carrying a signed, expiring token
+   * bound to the material, user and version
+   */
+  private createEditorSession(params: GetEditorUrlParams): EditorSession {
+    const config = this.client.getConfig();
+    const openedAt = Date.now();
+    const claims = {
+      id: randomUUID(),
+      materialId: stripMobilePrefix(params.materialId),
+      userId: params.userId,
+      isMobile: params.isMobile || params.materialId.startsWith('M'),
+      expiresAt: openedAt + (config.callbackTokenTtl ?? DEFAULT_CALLBACK_TOKEN_TTL),
+    };
+    const token = this.client.getAuth().generateCallbackToken(claims);
+
+    return {
+      ...claims,
+      callbackUrl: appendCallbackToken(params.callbackUrl, token),
+      openedAt,
+    };
   }
 
   /**
    * Process callback from Verstka after article save
    * Downloads files and calls provided saveHandler
    * 
+   * Callback signature and download_url are verified before any network I/O
+   * unless verifyCallbacks is disabled in config. Callbacks to per-session URLs
+   * must pass their token as options.callbackToken.
+   * When a storage adapter is configured, files are published to
+   * <materialId>/<desktop|mobile>/ and html_body asset URLs are rewritten
+   * before saveHandler is called.
+   * When a save store is configured, saves of the same material version are
+   * serialized, repeated callbacks are skipped as duplicates and saves older
+   * than the last applied one are skipped as stale. saveHandler is still called
+   * for skipped saves, with the outcome and an empty fileMap.
+   * When an asset cache is configured, files are requested conditionally, unchanged
+   * ones are restored from the cache and changes against the previous save are reported.
+   * Progress is emitted as save:* and download:* events and passed to options.onProgress.
+   * With mode 'memory' or 'stream' nothing is written to the filesystem and SaveHandler
+   * receives Buffers or lazy readable streams; storage publishing and the asset cache
+   * apply to disk mode only.
+   * 
    * @param callbackData - Data received from Verstka callback
-   * @param saveHandler - Function to handle downloaded files
+   * @param saveHandler - Optional function to handle downloaded files
+   * @param options - Per-call save options
+   * @returns Save outcome, downloaded files, failed files and public URLs
+   * @throws VerstkaSignatureError if callback verification fails
+   * @throws VerstkaDownloadError if files are missing and failOnMissingFiles is set
+   * @throws VerstkaApiError, VerstkaNetworkError or VerstkaTimeoutError if the file list cannot be fetched
    */
-  async save(callbackData: CallbackData, saveHandler: SaveHandler): Promise<void> {
-    const { download_url, material_id, custom_fields } = callbackData;
-    const logger = this.client.getLogger();
-    
-    if (!download_url || !material_id) {
-      throw new Error('Missing required parameters: download_url or material_id');
+  async save<M extends SaveMode = 'disk'>(
+    callbackData: CallbackData,
+    saveHandler?: SaveHandler<M>,
+    options: SaveOptions<M> = {}
+  ): Promise<SaveResult<M>> {
+    const tracker = new SaveProgressTracker(this.client.getEvents(), getEventContext(callbackData), {
+      ...(options.onProgress ? { onProgress: options.onProgress } : {}),
+      logger: this.client.getLogger(),
+      tracer: this.client.getTracer(),
+      metrics: this.client.getMetrics(),
+    });
+
+    try {
+      // The file map matches options.mode, which is what M is inferred from
+      const result = await this.runSave(
+        callbackData,
+        saveHandler as SaveHandler<SaveMode> | undefined,
+        options,
+        tracker
+      );
+      return result as SaveResult<M>;
+    } catch (error) {
+      tracker.error(error);
+      throw error;
     }
+  }
+
+  /**
+   * Verify callback and apply the save, guarded by the save store when configured
+   * 
+   * @param callbackData - Data received from Verstka callback
+   * @param saveHandler - Optional function to handle downloaded files
+   * @param options - Per-call save options
+   * @param tracker - Progress tracker of this save
+   * @returns Save outcome, downloaded files, failed files and public URLs
+   */
+  private async runSave(
+    callbackData: CallbackData,
+    saveHandler: SaveHandler<SaveMode> | undefined,
+    options: SaveOptions,
+    tracker: SaveProgressTracker
+  ): Promise<SaveResult<SaveMode>> {
+    const { download_url, material_id, custom_fields } = callbackData;
+    const logger = this.getCallbackLogger(callbackData);
+    const receivedAt = options.receivedAt ?? Date.now();
+
+    await this.checkCallback(callbackData, options);
+    tracker.start(download_url);
 
     // Determine if this is a mobile version
     const isMobile = custom_fields?.mobile === 'M' || material_id.startsWith('M');
     
     // Clean material_id (remove 'M' prefix if present)
-    const cleanMaterialId = material_id.startsWith('M') ? material_id.substring(1) : material_id;
+    const cleanMaterialId = stripMobilePrefix(material_id);
 
     logger.info(`Processing callback for material: ${material_id} (${isMobile ? 'mobile' : 'desktop'})`);
     logger.debug(`Download URL: ${download_url}`);
 
+    const config = this.client.getConfig();
+    const saveStore = options.saveStore || config.saveStore;
+
+    if (!saveStore) {
+      return this.applySave(callbackData, cleanMaterialId, isMobile, saveHandler, options, tracker);
+    }
+
+    /**
+     * Serialize saves per material version and skip duplicate or stale ones
+     */
+    const key = buildSaveKey(cleanMaterialId, isMobile);
+    const fingerprint = getSaveFingerprint(callbackData);
+    const version = options.version ?? config.getSaveVersion?.(callbackData) ?? receivedAt;
+    const release = await saveStore.acquire(key, config.saveLockTtl ?? 300000);
+
+    try {
+      const previousSave = await saveStore.get(key);
+      const outcome = getSaveOutcome(
+        previousSave,
+        fingerprint,
+        version,
+        config.rejectStaleSaves ?? true
+      );
+
+      if (outcome !== 'saved') {
+        logger.warn(`Skipping ${outcome} save for material: ${material_id}`, {
+          sessionId: callbackData.session_id,
+          lastSessionId: previousSave?.sessionId,
+        });
+
+        const skipped: SaveResult<SaveMode> = {
+          materialId: cleanMaterialId,
+          isMobile,
+          fileMap: {},
+          failedFiles: [],
+          outcome,
+          ...(previousSave ? { previousSave } : {}),
+        };
+
+        // The skipped save is older than the applied one, so saveHandler must not see its HTML
+        if (options.onSkipped) {
+          const skippedData: CallbackData = { ...callbackData, material_id: cleanMaterialId };
+          delete skippedData.html_body;
+
+          await options.onSkipped({
+            materialId: cleanMaterialId,
+            isMobile,
+            outcome,
+            callbackData: skippedData,
+            ...(previousSave ? { previousSave } : {}),
+          });
+        }
+
+        tracker.done(outcome);
+        return skipped;
+      }
+
+      const result = await this.applySave(
+        callbackData,
+        cleanMaterialId,
+        isMobile,
+        saveHandler,
+        options,
+        tracker,
+        previousSave
+      );
+
+      await saveStore.set(key, createSaveRecord(previousSave, {
+        materialId: cleanMaterialId,
+        isMobile,
+        ...(callbackData.session_id ? { sessionId: callbackData.session_id } : {}),
+        fingerprint,
+        version,
+        savedAt: Date.now(),
+      }));
+
+      return result;
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * Verify callback and queue it for a SaveWorker instead of saving right away
+   * 
+   * @param callbackData - Data received from Verstka callback
+   * @param options - Per-call save options
+   * @returns Queued job
+   * @throws VerstkaPayloadError or VerstkaSignatureError if the callback is rejected
+   */
+  async enqueueSave(callbackData: CallbackData, options: SaveOptions = {}): Promise<SaveJob> {
+    await this.checkCallback(callbackData, options);
+
+    const config = this.client.getConfig();
+    const saveQueue = options.saveQueue || config.saveQueue;
+
+    if (!saveQueue) {
+      throw new VerstkaConfigurationError('saveQueue');
+    }
+
+    const callbackUrl = options.callbackUrl || config.callbackUrl;
+    const job = createSaveJob({
+      callbackData,
+      version: options.version ?? config.getSaveVersion?.(callbackData) ?? Date.now(),
+      ...(callbackUrl ? { callbackUrl } : {}),
+      ...(options.callbackToken ? { callbackToken: options.callbackToken } : {}),
+    });
+
+    await saveQueue.add(job);
+    this.getCallbackLogger(callbackData).info(
+      `Queued save job ${job.id} for material: ${callbackData.material_id}`,
+      { job_id: job.id }
+    );
+
+    return job;
+  }
+
+  /**
+   * Get status of the latest queued save of a session
+   * 
+   * @param sessionId - Session identifier from the callback
+   * @returns Queued job, or undefined if the session has no job
+   */
+  async getSaveJob(sessionId: string): Promise<SaveJob | undefined> {
+    const saveQueue = this.client.getConfig().saveQueue;
+
+    if (!saveQueue) {
+      throw new VerstkaConfigurationError('saveQueue');
+    }
+
+    return saveQueue.getBySessionId(sessionId);
+  }
+
+  /**
+   * Create worker processing saves queued by enqueueSave
+   * 
+   * @param options - Worker options
+   * @returns Worker, call start() to begin processing
+   */
+  createSaveWorker(options: SaveWorkerOptions = {}): SaveWorker {
+    const saveQueue = this.client.getConfig().saveQueue;
+
+    if (!saveQueue) {
+      throw new VerstkaConfigurationError('saveQueue');
+    }
+
+    return new SaveWorker(this, saveQueue, {
+      logger: this.client.getLogger(),
+      ...options,
+    });
+  }
+
+  /**
+   * Check required fields and verify callback unless verification is disabled
+   * 
+   * @param callbackData - Data received from Verstka callback
+   * @param options - Save options with callback URL, token and receive time
+   */
+  private async checkCallback(callbackData: CallbackData, options: SaveOptions): Promise<void> {
+    if (!callbackData.download_url || !callbackData.material_id) {
+      throw new VerstkaPayloadError(
+        'INVALID_PAYLOAD',
+        'Missing required parameters: download_url or material_id'
+      );
+    }
+
+    if (this.client.getConfig().verifyCallbacks === false) {
+      this.getCallbackLogger(callbackData).warn(
+        'Callback verification is disabled, do not use this in production'
+      );
+    } else {
+      this.verifyCallback(callbackData, options.callbackUrl, options.callbackToken);
+      await this.verifyCallbackToken(callbackData, options.callbackToken, options.receivedAt ?? Date.now());
+    }
+  }
+
+  /**
+   * Logger with material_id and session_id of a callback bound
+   */
+  private getCallbackLogger(callbackData: CallbackData): Logger {
+    return this.client.getLogger().child({
+      material_id: callbackData.material_id,
+      ...(callbackData.session_id ? { session_id: callbackData.session_id } : {}),
+    });
+  }
+
+  /**
+   * Download files, publish them and call saveHandler
+   * 
+   * @param callbackData - Verified callback data
+   * @param cleanMaterialId - Material ID without 'M' prefix
+   * @param isMobile - Whether this is a mobile version
+   * @param saveHandler - Optional function to handle downloaded files
+   * @param options - Per-call save options
+   * @param tracker - Progress tracker of this save
+   * @param previousSave - Last applied save of this material version
+   * @returns Downloaded files, failed files and public URLs
+   */
+  private async applySave(
+    callbackData: CallbackData,
+    cleanMaterialId: string,
+    isMobile: boolean,
+    saveHandler: SaveHandler<SaveMode> | undefined,
+    options: SaveOptions,
+    tracker: SaveProgressTracker,
+    previousSave?: SaveRecord
+  ): Promise<SaveResult<SaveMode>> {
+    const { download_url, material_id } = callbackData;
+    const logger = this.getCallbackLogger(callbackData);
+    const mode = options.mode || 'disk';
+
     // Create temporary directory for downloads
-    const tempDir = createTempDirectory(`verstka-${material_id}`);
-    logger.debug(`Using temporary directory: ${tempDir}`);
+    const config = this.client.getConfig();
+    const keepTempFiles = options.keepTempFiles ?? config.keepTempFiles ?? false;
+    const safeMaterialId = material_id.replace(/[^\w-]/g, '_');
+    const tempDir = createTempDirectory(`verstka-${safeMaterialId}`, config.tempDir);
+    if (mode === 'disk') {
+      logger.debug(`Using temporary directory: ${tempDir}`);
+    }
+
+    const assetCache = mode === 'disk' ? options.assetCache || config.assetCache : undefined;
+    const cacheKey = buildSaveKey(cleanMaterialId, isMobile);
+    let streams: StreamMap | undefined;
 
     try {
       // Download files
-      const { fileMap, failedFiles } = await downloadFiles(
-        download_url,
-        tempDir,
-        {
-          concurrency: this.client.getConfig().downloadConcurrency || 20,
-          timeout: this.client.getConfig().timeout || 30000
-        },
-        logger
-      );
+      const downloadOptions: DownloadOptions = {
+        concurrency: config.downloadConcurrency || 20,
+        timeout: config.timeout || 30000,
+        ...(config.downloadRetries !== undefined ? { retries: config.downloadRetries } : {}),
+        ...(config.downloadRetryDelay !== undefined ? { retryDelay: config.downloadRetryDelay } : {}),
+        ...(config.downloadIdleTimeout !== undefined ? { idleTimeout: config.downloadIdleTimeout } : {}),
+        ...(config.maxFileSize !== undefined ? { maxFileSize: config.maxFileSize } : {}),
+        ...(config.maxBundleSize !== undefined ? { maxTotalSize: config.maxBundleSize } : {}),
+        ...(config.allowedExtensions !== undefined ? { allowedExtensions: config.allowedExtensions } : {}),
+        ...(config.allowedMimeTypes !== undefined ? { allowedMimeTypes: config.allowedMimeTypes } : {}),
+        transport: this.client.getTransport(),
+        ...tracker.getDownloadCallbacks(),
+      };
+
+      let download: Pick<DownloadResult, 'failedFiles' | 'changes' | 'manifest'> & {
+        fileMap: SaveFileMap<SaveMode>;
+      };
+      let diskFiles: FileMap | undefined;
 
+      if (mode === 'memory') {
+        const maxMemorySize = options.maxMemorySize ?? config.maxMemorySize ?? DEFAULT_MAX_MEMORY_SIZE;
+        download = await downloadFilesToMemory(
+          download_url,
+          { ...downloadOptions, maxTotalSize: Math.min(maxMemorySize, config.maxBundleSize ?? Infinity) },
+          logger
+        );
+      } else if (mode === 'stream') {
+        download = await openFileStreams(download_url, downloadOptions, logger);
+        streams = download.fileMap as StreamMap;
+      } else {
+        download = await downloadFiles(
+          download_url,
+          tempDir,
+          { ...downloadOptions, ...(assetCache ? { assetCache, cacheKey } : {}) },
+          logger
+        );
+        diskFiles = download.fileMap as FileMap;
+      }
+
+      const { fileMap, failedFiles, changes, manifest } = download;
       const successCount = Object.keys(fileMap).length;
       const totalCount = successCount + failedFiles.length;
       
-      logger.info(`Download results: ${successCount}/${totalCount} files downloaded successfully`);
+      logger.info(mode === 'stream'
+        ? `Opened ${successCount}/${totalCount} file streams`
+        : `Download results: ${successCount}/${totalCount} files downloaded successfully`);
       
       if (failedFiles.length > 0) {
         logger.warn(`Failed files:`, failedFiles.map(f => `${f.fileName}: ${f.error}`));
+
+        if (options.failOnMissingFiles ?? config.failOnMissingFiles) {
+          throw new VerstkaDownloadError(
+            `${failedFiles.length} of ${totalCount} files could not be downloaded`,
+            failedFiles
+          );
+        }
       }
 
-      // Call the provided saveHandler with parameters object
-      logger.debug(`Calling saveHandler for material: ${material_id}`);
-      await saveHandler({
+      // Publish files to storage if configured
+      const storage = options.storage || this.client.getConfig().storage;
+      let publishedUrls: FileMap | undefined;
+      let rewrittenHtml: RewriteHtmlResult | undefined;
+
+      if (storage && !diskFiles) {
+        logger.warn(`Storage publishing is not supported in ${mode} mode, skipping`);
+      }
+
+      if (storage && diskFiles) {
+        logger.debug(`Publishing files for material: ${material_id}`);
+        tracker.phase('publish');
+        const published = await publishFiles(
+          storage,
+          diskFiles,
+          cleanMaterialId,
+          isMobile,
+          this.client.getConfig().downloadConcurrency || 20,
+          logger,
+          changes
+        );
+        publishedUrls = published.urls;
+        failedFiles.push(...published.failedFiles);
+
+        // Files that failed to publish must be uploaded again next time
+        published.failedFiles.forEach(failedFile => {
+          if (manifest) delete manifest[failedFile.fileName];
+        });
+
+        if (callbackData.html_body) {
+          rewrittenHtml = rewriteHtmlAssetUrls(callbackData.html_body, publishedUrls);
+
+          if (rewrittenHtml.missingReferences.length > 0) {
+            logger.warn(`HTML references missing files:`, rewrittenHtml.missingReferences);
+          }
+        }
+      }
+
+      const publishedParams = {
+        ...(publishedUrls ? { publishedUrls } : {}),
+        ...(rewrittenHtml ? { rewrittenHtml } : {}),
+        ...(previousSave ? { previousSave } : {}),
+        ...(changes ? { changes } : {}),
+      };
+
+      const result: SaveResult<SaveMode> = {
+        materialId: cleanMaterialId,
+        isMobile,
         fileMap,
-        callbackData: {
-          ...callbackData,
-          material_id: cleanMaterialId,
-        },
         failedFiles,
-        isMobile,
-      });
-      logger.info(`SaveHandler completed for material: ${material_id}`);
-      
-      logger.debug(`Temporary files available at: ${tempDir}`);
+        outcome: 'saved',
+        ...publishedParams,
+      };
+
+      // Call the provided saveHandler with parameters object
+      if (saveHandler) {
+        logger.debug(`Calling saveHandler for material: ${material_id}`);
+        tracker.phase('handler');
+        await saveHandler({
+          fileMap,
+          callbackData: {
+            ...callbackData,
+            material_id: cleanMaterialId,
+          },
+          failedFiles,
+          isMobile,
+          outcome: 'saved',
+          ...publishedParams,
+        });
+        logger.info(`SaveHandler completed for material: ${material_id}`);
+      }
+
+      // Remember files of the applied save for the next one
+      if (assetCache && manifest) {
+        await assetCache.setManifest(cacheKey, manifest).catch(error => {
+          logger.warn(`Failed to store asset cache manifest ${cacheKey}:`, error);
+        });
+      }
+
+      // Snapshot the applied save, streams are already consumed by the handler
+      const revisionStore = options.revisionStore || config.revisionStore;
+
+      if (revisionStore) {
+        if (mode === 'stream') {
+          logger.warn('Revision files are not stored in stream mode, storing HTML only');
+        }
+
+        const revision = await this.addRevision(
+          revisionStore,
+          callbackData,
+          cleanMaterialId,
+          isMobile,
+          mode === 'stream' ? {} : fileMap as Record<string, string | Buffer>,
+          logger
+        );
+        if (revision) {
+          result.revision = revision;
+        }
+      }
+
+      tracker.done('saved');
+      return result;
 
     } catch (error) {
       logger.error(`Error processing callback for material ${material_id}:`, error);
       throw error;
+    } finally {
+      // Release responses of streams the handler did not read to the end
+      Object.values(streams || {}).forEach(stream => {
+        if (!stream.readableEnded) stream.destroy();
+      });
+
+      if (mode === 'disk') {
+        if (keepTempFiles) {
+          logger.debug(`Temporary files available at: ${tempDir}`);
+        } else {
+          await removeTempDirectory(tempDir, logger);
+        }
+      }
+    }
+  }
+
+  /**
+   * Store revision of an applied save, failures are logged and do not fail the save
+   */
+  private async addRevision(
+    revisionStore: RevisionStore,
+    callbackData: CallbackData,
+    cleanMaterialId: string,
+    isMobile: boolean,
+    files: Record<string, string | Buffer>,
+    logger: Logger
+  ): Promise<Revision | undefined> {
+    const key = buildSaveKey(cleanMaterialId, isMobile);
+
+    try {
+      const revision = await revisionStore.add(key, {
+        id: randomUUID(),
+        materialId: cleanMaterialId,
+        isMobile,
+        htmlBody: callbackData.html_body || '',
+        ...(callbackData.user_id ? { userId: callbackData.user_id } : {}),
+        ...(callbackData.session_id ? { sessionId: callbackData.session_id } : {}),
+        createdAt: Date.now(),
+      }, files);
+
+      logger.debug(`Stored revision ${revision.id} of ${key}`);
+      return revision;
+    } catch (error) {
+      logger.warn(`Failed to store revision of ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * List revisions of a material version, newest first
+   * 
+   * @param materialId - Material ID, an 'M' prefix is removed
+   * @param isMobile - Whether this is a mobile version
+   * @returns Revisions without file contents
+   */
+  async listRevisions(materialId: string, isMobile: boolean = false): Promise<Revision[]> {
+    return this.getRevisionStore().list(buildSaveKey(stripMobilePrefix(materialId), isMobile));
+  }
+
+  /**
+   * Get revision of a material version
+   * 
+   * @param materialId - Material ID, an 'M' prefix is removed
+   * @param isMobile - Whether this is a mobile version
+   * @param revisionId - Revision ID
+   * @returns Revision, or undefined if it does not exist
+   */
+  async getRevision(materialId: string, isMobile: boolean, revisionId: string): Promise<Revision | undefined> {
+    return this.getRevisionStore().get(buildSaveKey(stripMobilePrefix(materialId), isMobile), revisionId);
+  }
+
+  /**
+   * Compare two revisions of a material version
+   * 
+   * @param materialId - Material ID, an 'M' prefix is removed
+   * @param isMobile - Whether this is a mobile version
+   * @param fromId - Older revision ID
+   * @param toId - Newer revision ID
+   * @returns Whether the HTML changed and added, changed and removed files
+   */
+  async diffRevisions(
+    materialId: string,
+    isMobile: boolean,
+    fromId: string,
+    toId: string
+  ): Promise<RevisionDiff> {
+    const [from, to] = await Promise.all([
+      this.requireRevision(materialId, isMobile, fromId),
+      this.requireRevision(materialId, isMobile, toId),
+    ]);
+
+    return diffRevisions(from, to);
+  }
+
+  /**
+   * Open the editor with the HTML of a revision
+   * Pictures the editor cannot fetch from hostName are uploaded from the revision.
+   * The rollback is applied, and becomes a new revision, when the user saves.
+   * 
+   * @param params - Editor parameters and revision ID
+   * @returns Revision and editor URL
+   */
+  async rollback(params: RollbackParams): Promise<RollbackResult> {
+    const { revisionId, ...editorParams } = params;
+    const revision = await this.requireRevision(params.materialId, params.isMobile, revisionId);
+    const revisionStore = this.getRevisionStore();
+
+    const editUrl = await this.getEditorUrl({
+      ...editorParams,
+      htmlBody: revision.htmlBody,
+      lackingPictures: editorParams.lackingPictures || {
+        resolver: pictureName => revisionStore.readFile(revision, pictureName),
+      },
+    });
+
+    this.client.getLogger().child({ material_id: revision.materialId }).info(
+      `Opened editor with revision ${revision.id} of material: ${revision.materialId}`
+    );
+
+    return { revision, editUrl };
+  }
+
+  /**
+   * Get configured revision store
+   */
+  private getRevisionStore(): RevisionStore {
+    const revisionStore = this.client.getConfig().revisionStore;
+
+    if (!revisionStore) {
+      throw new VerstkaConfigurationError('revisionStore');
     }
+
+    return revisionStore;
   }
-} 
\ No newline at end of file
+
+  /**
+   * Get revision, throwing if it does not exist
+   */
+  private async requireRevision(materialId: string, isMobile: boolean, revisionId: string): Promise<Revision> {
+    const revision = await this.getRevision(materialId, isMobile, revisionId);
+
+    if (!revision) {
+      throw new VerstkaNotFoundError(
+        'REVISION_NOT_FOUND',
+        `Revision ${revisionId} of material ${materialId} not found`
+      );
+    }
+
+    return revision;
+  }
+
+  /**
+   * List editor sessions opened with callback tokens, newest first
+   * 
+   * @param filter - Material, user and version filter, only active sessions unless includeInactive is set
+   * @returns Editor sessions
+   */
+  async listEditorSessions(filter: EditorSessionFilter = {}): Promise<EditorSession[]> {
+    const now = Date.now();
+    const sessions = await this.getSessionRegistry().list(
+      filter.materialId !== undefined ? stripMobilePrefix(filter.materialId) : undefined
+    );
+
+    return sessions
+      .filter(session => matchEditorSession(session, filter, now))
+      .sort((a, b) => b.openedAt - a.openedAt);
+  }
+
+  /**
+   * Get editor session by ID
+   * 
+   * @param id - Editor session ID
+   * @returns Editor session, or undefined if it is not registered
+   */
+  async getEditorSession(id: string): Promise<EditorSession | undefined> {
+    return this.getSessionRegistry().get(id);
+  }
+
+  /**
+   * Revoke editor session, its callbacks are rejected from now on
+   * 
+   * @param id - Editor session ID
+   * @returns Revoked session, or undefined if it is not registered
+   */
+  async revokeEditorSession(id: string): Promise<EditorSession | undefined> {
+    const registry = this.getSessionRegistry();
+    const session = await registry.get(id);
+
+    if (!session || session.revokedAt !== undefined) {
+      return session;
+    }
+
+    const revoked: EditorSession = { ...session, revokedAt: Date.now() };
+    await registry.set(revoked);
+
+    this.client.getLogger().child({ material_id: session.materialId }).info(
+      `Revoked editor session ${id} of user ${session.userId}`
+    );
+
+    return revoked;
+  }
+
+  /**
+   * Revoke all active editor sessions matching a filter, e.g. all sessions of a user
+   * 
+   * @param filter - Material, user and version filter
+   * @returns Revoked sessions
+   */
+  async revokeEditorSessions(filter: Omit<EditorSessionFilter, 'includeInactive'>): Promise<EditorSession[]> {
+    const revoked: EditorSession[] = [];
+
+    for (const session of await this.listEditorSessions(filter)) {
+      const result = await this.revokeEditorSession(session.id);
+      if (result) revoked.push(result);
+    }
+
+    return revoked;
+  }
+
+  /**
+   * Get configured editor session registry
+   */
+  private getSessionRegistry(): EditorSessionRegistry {
+    const sessionRegistry = this.client.getConfig().sessionRegistry;
+
+    if (!sessionRegistry) {
+      throw new VerstkaConfigurationError('sessionRegistry');
+    }
+
+    return sessionRegistry;
+  }
+
+  /**
+   * Remove orphaned verstka-* temporary directories left by crashed processes
+   * 
+   * @param ttl - Age in milliseconds after which a directory is removed (default: config.tempDirTtl or 24 hours)
+   * @returns Paths of removed directories
+   */
+  async sweepTempDirectories(ttl?: number): Promise<string[]> {
+    const config = this.client.getConfig();
+    const finalTtl = ttl ?? config.tempDirTtl;
+
+    return sweepTempDirectories(
+      {
+        ...(config.tempDir ? { baseDir: config.tempDir } : {}),
+        ...(finalTtl !== undefined ? { ttl: finalTtl } : {}),
+      },
+      this.client.getLogger()
+    );
+  }
+
+  /**
+   * Verify callback signature and download URL host
+   * 
+   * @param callbackData - Data received from Verstka callback
+   * @param callbackUrl - Callback URL the editor was opened with
+   * @param callbackToken - Token of a per-session callback URL
+   * @throws VerstkaSignatureError if verification fails
+   */
+  private verifyCallback(callbackData: CallbackData, callbackUrl?: string, callbackToken?: string): void {
+    const config = this.client.getConfig();
+    const finalCallbackUrl = callbackUrl || config.callbackUrl;
+
+    if (!callbackData.callback_sign) {
+      throw new VerstkaSignatureError('MISSING_SIGNATURE', 'Callback signature is missing');
+    }
+
+    if (!finalCallbackUrl) {
+      throw new VerstkaSignatureError(
+        'MISSING_CALLBACK_URL',
+        'Cannot verify callback signature: callbackUrl is not configured'
+      );
+    }
+
+    const isValid = this.client.getAuth().verifyCallbackSignature({
+      material_id: callbackData.material_id,
+      user_id: callbackData.user_id || '',
+      callback_url: callbackToken ? appendCallbackToken(finalCallbackUrl, callbackToken) : finalCallbackUrl,
+      callback_sign: callbackData.callback_sign,
+    });
+
+    if (!isValid) {
+      throw new VerstkaSignatureError('INVALID_SIGNATURE', 'Callback signature is invalid');
+    }
+
+    /**
+     * Only allow downloads from the configured Verstka host and its subdomains
+     */
+    const apiUrl = new URL(this.client.getBaseUrl());
+    const trustedHosts = [apiUrl.hostname, ...(config.allowedDownloadHosts || [])]
+      .map(host => host.toLowerCase());
+
+    let downloadUrl: URL;
+    try {
+      downloadUrl = new URL(callbackData.download_url);
+    } catch {
+      throw new VerstkaSignatureError('UNTRUSTED_DOWNLOAD_URL', 'download_url is not a valid URL');
+    }
+
+    const allowedProtocols = apiUrl.protocol === 'http:' ? ['http:', 'https:'] : ['https:'];
+    const hostName = downloadUrl.hostname.toLowerCase();
+    const isTrustedHost = trustedHosts.some(
+      host => hostName === host || hostName.endsWith(`.${host}`)
+    );
+
+    if (!allowedProtocols.includes(downloadUrl.protocol) || !isTrustedHost) {
+      throw new VerstkaSignatureError(
+        'UNTRUSTED_DOWNLOAD_URL',
+        `download_url points to untrusted host: ${downloadUrl.host}`
+      );
+    }
+  }
+
+  /**
+   * Verify callback token against the callback and the editor session registry
+   * 
+   * @param callbackData - Data received from Verstka callback
+   * @param callbackToken - Token of a per-session callback URL
+   * @param receivedAt - Time the callback was received
+   * @throws VerstkaSignatureError if the token is missing, invalid or expired, or its session was revoked
+   */
+  private async verifyCallbackToken(
+    callbackData: CallbackData,
+    callbackToken: string | undefined,
+    receivedAt: number
+  ): Promise<void> {
+    const config = this.client.getConfig();
+
+    if (!callbackToken) {
+      if (config.callbackTokens) {
+        throw new VerstkaSignatureError('MISSING_TOKEN', 'Callback token is missing');
+      }
+      return;
+    }
+
+    const claims = this.client.getAuth().verifyCallbackToken(callbackToken);
+
+    if (!claims) {
+      throw new VerstkaSignatureError('INVALID_TOKEN', 'Callback token is invalid');
+    }
+
+    const { materialId, isMobile } = getEventContext(callbackData);
+
+    if (
+      claims.materialId !== materialId
+      || claims.userId !== (callbackData.user_id || '')
+      || claims.isMobile !== isMobile
+    ) {
+      throw new VerstkaSignatureError(
+        'INVALID_TOKEN',
+        'Callback token was issued for another material, user or version'
+      );
+    }
+
+    if (claims.expiresAt <= receivedAt) {
+      throw new VerstkaSignatureError(
+        'EXPIRED_TOKEN',
+        `Callback token expired at ${new Date(claims.expiresAt).toISOString()}`
+      );
+    }
+
+    if (config.sessionRegistry) {
+      const session = await config.sessionRegistry.get(claims.id);
+
+      if (!session) {
+        throw new VerstkaSignatureError('INVALID_TOKEN', `Editor session ${claims.id} is not registered`);
+      }
+
+      if (session.revokedAt !== undefined) {
+        throw new VerstkaSignatureError('REVOKED_SESSION', `Editor session ${claims.id} was revoked`);
+      }
+    }
+  }
+}
+
+/**
+ * Event context of a callback
+ */
+function getEventContext(callbackData: CallbackData): VerstkaEventContext {
+  const materialId = callbackData.material_id || '';
+
+  return {
+    materialId: stripMobilePrefix(materialId),
+    isMobile: callbackData.custom_fields?.mobile === 'M' || materialId.startsWith('M'),
+    ...(callbackData.session_id ? { sessionId: callbackData.session_id } : {}),
+  };
+}
@@ -5,14 +5,46 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { createWriteStream } from 'fs';
+import { createHash } from 'crypto';
+import type { Dirent } from 'fs';
+import { Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
 import pLimit from 'p-limit';
 import type { 
   DownloadOptions, 
   DownloadResult, 
-  FileMap, 
-  FailedFile 
+  FailedFile,
+  DownloadedFileStats,
+  FailedFileReason,
+  TempSweepOptions,
+  AssetCacheEntry,
+  AssetManifest,
+  StreamMap,
+  MemoryDownloadResult,
+  StreamDownloadResult
 } from './types.js';
-import type { VerstkaLogger } from './logger.js';
+import type { Logger } from './logger.js';
+import {
+  VerstkaError,
+  VerstkaApiError,
+  VerstkaNetworkError,
+  VerstkaTimeoutError,
+  VerstkaDownloadError,
+} from './errors.js';
+import {
+  DEFAULT_ALLOWED_EXTENSIONS,
+  DEFAULT_ALLOWED_MIME_TYPES,
+  SNIFF_LENGTH,
+  normalizeFileName,
+  checkFileContent,
+} from './files.js';
+import { compareManifests } from './cache.js';
+import { getDefaultTransport } from './transport.js';
+import type { HttpTransport } from './transport.js';
+
+const DEFAULT_RETRY_STATUSES = [408, 425, 429, 500, 502, 503, 504];
 
 /**
  * Download files from Verstka and save them to a temporary directory
@@ -27,140 +59,861 @@ export async function downloadFiles(
   downloadUrl: string,
   tempDir: string,
   options: DownloadOptions = {},
-  logger?: VerstkaLogger
+  logger?: Logger
 ): Promise<DownloadResult> {
-  const { concurrency = 20, timeout = 30000 } = options;
-  
+  const fileNames = await getFileList(downloadUrl, options, logger);
+  return downloadFileList(fileNames, downloadUrl, new DiskFileSink(tempDir), options, logger);
+}
+
+/**
+ * Download files from Verstka into memory, without touching the filesystem
+ * Set maxTotalSize to cap memory usage.
+ * 
+ * @param downloadUrl - Base URL for downloading files
+ * @param options - Download options (assetCache is not used)
+ * @param logger - Optional logger instance
+ * @returns Promise with download results, fileMap holds file contents
+ */
+export async function downloadFilesToMemory(
+  downloadUrl: string,
+  options: DownloadOptions = {},
+  logger?: Logger
+): Promise<MemoryDownloadResult> {
+  const fileNames = await getFileList(downloadUrl, options, logger);
+  return downloadFileList(fileNames, downloadUrl, new MemoryFileSink(), options, logger);
+}
+
+/**
+ * Get the file list from Verstka and open a lazy stream for each file
+ * A file is requested on the first read of its stream. Retries apply until the
+ * response starts; later failures and rejected content destroy the stream with
+ * VerstkaDownloadError.
+ * 
+ * @param downloadUrl - Base URL for downloading files
+ * @param options - Download options (concurrency and assetCache are not used)
+ * @param logger - Optional logger instance
+ * @returns Streams by file name and files rejected by name
+ */
+export async function openFileStreams(
+  downloadUrl: string,
+  options: DownloadOptions = {},
+  logger?: Logger
+): Promise<StreamDownloadResult> {
+  const fileNames = await getFileList(downloadUrl, options, logger);
+  const failedFiles: FailedFile[] = [];
+  const acceptedNames = validateFileList(fileNames, options, failedFiles, logger);
+  failedFiles.forEach(failedFile => options.onFileFailed?.(failedFile));
+  options.onFileList?.(acceptedNames);
+
+  const bundle: BundleUsage = { bytes: 0 };
+  const fileMap: StreamMap = {};
+
+  for (const fileName of acceptedNames) {
+    fileMap[fileName] = new FileStream(fileName, downloadUrl, options, bundle, logger);
+  }
+
+  return { fileMap, failedFiles };
+}
+
+/**
+ * Get list of available files
+ * 
+ * @param downloadUrl - Base URL for downloading files
+ * @param options - Download options with retry settings
+ * @param logger - Optional logger instance
+ * @returns File names as listed by Verstka
+ */
+async function getFileList(
+  downloadUrl: string,
+  options: DownloadOptions,
+  logger?: Logger
+): Promise<string[]> {
   try {
     // Get list of available files
     logger?.debug(`Getting file list from: ${downloadUrl}`);
     
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-    
-    const response = await fetch(downloadUrl, {
-      signal: controller.signal
-    });
-    
-    clearTimeout(timeoutId);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-    
-    const fileData = await response.json();
+    const fileData = await withRetry(
+      async (signal, onProgress) => {
+        const response = await fetchChecked(getTransport(options), downloadUrl, signal);
+        onProgress();
+        return response.json();
+      },
+      options,
+      downloadUrl,
+      logger,
+      'file list'
+    );
     
-    if (fileData.rc !== 1 || !Array.isArray(fileData.data)) {
-      throw new Error(`Invalid response: ${fileData.rm || 'Unknown error'}`);
+    if (fileData?.rc !== 1 || !Array.isArray(fileData.data)) {
+      throw new VerstkaApiError(`Invalid response: ${fileData?.rm || 'Unknown error'}`, {
+        endpoint: downloadUrl,
+        ...(typeof fileData?.rc === 'number' ? { rc: fileData.rc } : {}),
+        ...(fileData?.rm ? { rm: fileData.rm } : {}),
+      });
     }
     
     const fileNames = fileData.data as string[];
     logger?.debug(`Found ${fileNames.length} files:`, fileNames);
     
-    // Create temporary directory
-    await fs.mkdir(tempDir, { recursive: true });
-    
-    // Download files with concurrency limit
-    logger?.debug(`Starting parallel download with ${concurrency} concurrent streams...`);
+    return fileNames;
     
-    const limit = pLimit(concurrency);
-    const downloadPromises = fileNames.map(fileName =>
-      limit(() => downloadSingleFile(fileName, downloadUrl, tempDir, timeout, logger))
-    );
-    
-    const results = await Promise.allSettled(downloadPromises);
-    
-    // Process results
-    const fileMap: FileMap = {};
-    const failedFiles: FailedFile[] = [];
-    
-    results.forEach((result, index) => {
-      const fileName = fileNames[index];
-      if (!fileName) return; // Skip if fileName is undefined
-      
-      if (result.status === 'fulfilled') {
-        const downloadResult = result.value;
-        if (downloadResult.success) {
-          fileMap[fileName] = downloadResult.filePath;
-        } else {
-          failedFiles.push({
-            fileName,
-            error: downloadResult.error
-          });
+  } catch (error) {
+    logger?.error('Failed to get file list:', error);
+    throw error;
+  }
+}
+
+/**
+ * Download again only the files that failed in a previous run
+ * 
+ * @param downloadUrl - Base URL for downloading files
+ * @param failedFiles - Files that failed to download
+ * @param tempDir - Directory the previous run saved files to
+ * @param options - Download options
+ * @param logger - Optional logger instance
+ * @returns Promise with download results for the retried files
+ */
+export async function retryFailed(
+  downloadUrl: string,
+  failedFiles: FailedFile[],
+  tempDir: string,
+  options: DownloadOptions = {},
+  logger?: Logger
+): Promise<DownloadResult> {
+  const fileNames = failedFiles.map(f => f.fileName);
+  logger?.debug(`Retrying ${fileNames.length} failed files:`, fileNames);
+
+  return downloadFileList(fileNames, downloadUrl, new DiskFileSink(tempDir), options, logger, false);
+}
+
+/**
+ * Download a list of files with concurrency limit
+ * 
+ * @param fileNames - Names of the files to download
+ * @param downloadUrl - Base download URL
+ * @param sink - Destination of downloaded files
+ * @param options - Download options
+ * @param logger - Optional logger instance
+ * @param isFullList - Whether fileNames is the whole file list, so that missing files count as removed
+ * @returns Download results
+ */
+async function downloadFileList<T>(
+  fileNames: string[],
+  downloadUrl: string,
+  sink: FileSink<T>,
+  options: DownloadOptions,
+  logger?: Logger,
+  isFullList: boolean = true
+): Promise<Omit<DownloadResult, 'fileMap'> & { fileMap: { [fileName: string]: T } }> {
+  const { concurrency = 20 } = options;
+  const bundle: BundleUsage = { bytes: 0 };
+  const failedFiles: FailedFile[] = [];
+
+  // Validate file names before touching the filesystem
+  const acceptedNames = validateFileList(fileNames, options, failedFiles, logger);
+  failedFiles.forEach(failedFile => options.onFileFailed?.(failedFile));
+  options.onFileList?.(acceptedNames);
+
+  // Create temporary directory
+  await sink.init();
+
+  // Cached content can only be restored to disk
+  const useCache = Boolean(sink.getPath && options.assetCache && options.cacheKey);
+  const previousManifest = useCache ? await getPreviousManifest(options, logger) : undefined;
+  const manifest: AssetManifest = {};
+  
+  // Download files with concurrency limit
+  logger?.debug(`Starting parallel download with ${concurrency} concurrent streams...`);
+  
+  const limit = pLimit(concurrency);
+  const fileMap: { [fileName: string]: T } = {};
+  const fileStats: DownloadResult['fileStats'] = {};
+
+  /**
+   * Record each result as soon as the file completes so that progress is reported in real time
+   */
+  const addFailed = (failedFile: FailedFile) => {
+    failedFiles.push(failedFile);
+    options.onFileFailed?.(failedFile);
+  };
+
+  const downloadPromises = acceptedNames.map(fileName =>
+    limit(async () => {
+      const downloadResult = await downloadSingleFile(
+        fileName, downloadUrl, sink, options, bundle, logger, previousManifest?.[fileName]
+      );
+
+      if (downloadResult.success) {
+        fileMap[fileName] = sink.get(fileName);
+        fileStats[fileName] = downloadResult.stats;
+        if (downloadResult.entry) {
+          manifest[fileName] = downloadResult.entry;
         }
+        options.onFileDone?.(fileName, downloadResult.stats);
       } else {
-        failedFiles.push({
+        addFailed({
           fileName,
-          error: result.reason?.message || 'Unknown error'
+          error: downloadResult.error,
+          attempts: downloadResult.attempts,
+          reason: downloadResult.reason,
+          ...(downloadResult.status ? { status: downloadResult.status } : {}),
         });
       }
+    })
+  );
+  
+  const results = await Promise.allSettled(downloadPromises);
+  
+  results.forEach((result, index) => {
+    const fileName = acceptedNames[index];
+    if (!fileName || result.status === 'fulfilled') return;
+
+    addFailed({
+      fileName,
+      error: result.reason?.message || 'Unknown error',
+      reason: 'NETWORK_ERROR',
     });
-    
-    const successCount = Object.keys(fileMap).length;
-    logger?.info(`Download completed: ${successCount}/${fileNames.length} files successful`);
-    
-    if (failedFiles.length > 0) {
-      logger?.warn(`${failedFiles.length} files failed to download:`, 
-        failedFiles.map(f => f.fileName));
-    }
-    
-    return { fileMap, failedFiles };
-    
+  });
+  
+  const successCount = Object.keys(fileMap).length;
+  const totalKB = Math.round(bundle.bytes / 1024);
+  logger?.info(`Download completed: ${successCount}/${fileNames.length} files successful (${totalKB}KB)`);
+  
+  if (failedFiles.length > 0) {
+    logger?.warn(`${failedFiles.length} files failed to download:`, 
+      failedFiles.map(f => f.fileName));
+  }
+  
+  if (!useCache) {
+    return { fileMap, failedFiles, fileStats, totalBytes: bundle.bytes };
+  }
+
+  /**
+   * Keep entries of files that failed this time so that the next save can still compare them
+   */
+  const accepted = new Set(acceptedNames);
+  const keptEntries = Object.entries(previousManifest || {}).filter(([fileName]) =>
+    !isFullList || accepted.has(fileName)
+  );
+  const changes = compareManifests(previousManifest, manifest, isFullList
+    ? acceptedNames
+    : Object.keys(previousManifest || {}).concat(acceptedNames));
+
+  logger?.debug(
+    `File changes: ${changes.added.length} added, ${changes.changed.length} changed, ` +
+    `${changes.unchanged.length} unchanged, ${changes.removed.length} removed`
+  );
+
+  return {
+    fileMap,
+    failedFiles,
+    fileStats,
+    totalBytes: bundle.bytes,
+    changes,
+    manifest: { ...Object.fromEntries(keptEntries), ...manifest },
+  };
+}
+
+/**
+ * Read manifest of the previous save, a broken cache only disables conditional requests
+ */
+async function getPreviousManifest(
+  options: DownloadOptions,
+  logger?: Logger
+): Promise<AssetManifest | undefined> {
+  if (!options.assetCache || !options.cacheKey) {
+    return undefined;
+  }
+
+  try {
+    return await options.assetCache.getManifest(options.cacheKey);
   } catch (error) {
-    logger?.error('Failed to get file list:', error);
-    throw error;
+    logger?.warn(`Failed to read asset cache manifest ${options.cacheKey}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Normalize file names and check them against the extension allowlist
+ * 
+ * @param fileNames - File names from the remote file list
+ * @param options - Download options
+ * @param failedFiles - List receiving rejected entries
+ * @param logger - Optional logger instance
+ * @returns Normalized, unique file names that may be downloaded
+ */
+function validateFileList(
+  fileNames: string[],
+  options: DownloadOptions,
+  failedFiles: FailedFile[],
+  logger?: Logger
+): string[] {
+  const { allowedExtensions = DEFAULT_ALLOWED_EXTENSIONS } = options;
+  const extensions = allowedExtensions
+    ? new Set(allowedExtensions.map(ext => ext.toLowerCase().replace(/^\.?/, '.')))
+    : null;
+  const accepted = new Set<string>();
+
+  for (const fileName of fileNames) {
+    const normalized = normalizeFileName(fileName);
+
+    if (!normalized) {
+      logger?.warn(`Rejected unsafe file name: ${JSON.stringify(fileName)}`);
+      failedFiles.push({
+        fileName: String(fileName),
+        error: 'Unsafe file name',
+        reason: 'INVALID_FILE_NAME',
+      });
+      continue;
+    }
+
+    const extension = path.extname(normalized).toLowerCase();
+    if (extensions && !extensions.has(extension)) {
+      logger?.warn(`Rejected file with disallowed extension: ${normalized}`);
+      failedFiles.push({
+        fileName: normalized,
+        error: `Extension ${extension || '(none)'} is not allowed`,
+        reason: 'EXTENSION_NOT_ALLOWED',
+      });
+      continue;
+    }
+
+    accepted.add(normalized);
+  }
+
+  return [...accepted];
+}
+
+/**
+ * Bytes downloaded so far for a whole bundle
+ */
+interface BundleUsage {
+  bytes: number;
+}
+
+/**
+ * Bytes downloaded so far for a file in the current attempt
+ */
+interface FileUsage {
+  bytes: number;
+}
+
+/**
+ * Count a chunk against the size limits and report progress
+ * 
+ * @returns Error when a limit is exceeded
+ */
+function countChunk(
+  fileName: string,
+  chunk: Buffer,
+  file: FileUsage,
+  contentLength: number,
+  bundle: BundleUsage,
+  options: DownloadOptions
+): RejectedFileError | undefined {
+  const { maxFileSize, maxTotalSize } = options;
+
+  file.bytes += chunk.length;
+  bundle.bytes += chunk.length;
+  options.onFileProgress?.({
+    fileName,
+    bytes: file.bytes,
+    ...(contentLength > 0 ? { totalBytes: contentLength } : {}),
+    bundleBytes: bundle.bytes,
+  });
+
+  if (maxFileSize !== undefined && file.bytes > maxFileSize) {
+    return new RejectedFileError('SIZE_LIMIT', `File exceeds limit of ${maxFileSize} bytes`);
+  }
+  if (maxTotalSize !== undefined && bundle.bytes > maxTotalSize) {
+    return new RejectedFileError('SIZE_LIMIT', `Bundle size limit of ${maxTotalSize} bytes exceeded`);
+  }
+  return undefined;
+}
+
+/**
+ * Readable requesting a file on first read
+ * Content is checked against the size limits as it flows and sniffed before
+ * the first bytes are handed out.
+ */
+class FileStream extends Readable {
+  private fileName: string;
+  private fileUrl: string;
+  private options: DownloadOptions;
+  private bundle: BundleUsage;
+  private logger: Logger | undefined;
+  private body: Readable | undefined;
+  private chunks: AsyncIterator<Buffer> | undefined;
+  private file: FileUsage = { bytes: 0 };
+  private contentLength = 0;
+  private attempts = { count: 0 };
+  private startTime = 0;
+  private ended = false;
+
+  constructor(
+    fileName: string,
+    downloadUrl: string,
+    options: DownloadOptions,
+    bundle: BundleUsage,
+    logger?: Logger
+  ) {
+    super();
+    this.fileName = fileName;
+    this.fileUrl = `${downloadUrl}/${fileName}`;
+    this.options = options;
+    this.bundle = bundle;
+    this.logger = logger;
+  }
+
+  /**
+   * Push next chunk, requesting the file on first read
+   */
+  override _read(): void {
+    this.readNext().then(
+      chunk => {
+        this.push(chunk);
+      },
+      error => {
+        this.destroy(error instanceof Error ? error : new Error(String(error)));
+      }
+    );
+  }
+
+  /**
+   * Release the response and report failures as VerstkaDownloadError
+   */
+  override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this.body?.destroy();
+
+    if (!error || this.ended) {
+      callback(error);
+      return;
+    }
+
+    const failedFile: FailedFile = {
+      fileName: this.fileName,
+      error: error.message,
+      attempts: this.attempts.count,
+      reason: getFailureReason(error),
+      ...(error instanceof VerstkaApiError && error.status ? { status: error.status } : {}),
+    };
+
+    this.logger?.error(`[${this.fileName}] Stream failed:`, error.message);
+    this.options.onFileFailed?.(failedFile);
+    callback(new VerstkaDownloadError(`Failed to download ${this.fileName}: ${error.message}`, [failedFile]));
+  }
+
+  /**
+   * Read next chunk of the response, null at the end
+   */
+  private async readNext(): Promise<Buffer | null> {
+    if (!this.chunks) {
+      return this.open();
+    }
+
+    const { value, done } = await this.chunks.next();
+
+    if (done) {
+      this.finish();
+      return null;
+    }
+
+    return this.count(value);
+  }
+
+  /**
+   * Request the file and return its sniffed head
+   */
+  private async open(): Promise<Buffer | null> {
+    const { maxFileSize, allowedMimeTypes = DEFAULT_ALLOWED_MIME_TYPES } = this.options;
+
+    this.startTime = Date.now();
+    this.logger?.debug(`[${this.fileName}] Starting stream...`);
+    this.options.onFileStart?.(this.fileName);
+
+    const response = await withRetry(
+      signal => fetchChecked(getTransport(this.options), this.fileUrl, signal),
+      this.options,
+      this.fileUrl,
+      this.logger,
+      this.fileName,
+      this.attempts
+    );
+    this.contentLength = Number(response.headers.get('content-length'));
+
+    if (maxFileSize !== undefined && this.contentLength > maxFileSize) {
+      await response.body?.cancel().catch(() => undefined);
+      throw new RejectedFileError(
+        'SIZE_LIMIT',
+        `File size ${this.contentLength} exceeds limit of ${maxFileSize} bytes`
+      );
+    }
+
+    if (!response.body) {
+      throw new VerstkaNetworkError('Empty response body', this.fileUrl);
+    }
+
+    this.body = Readable.fromWeb(response.body as WebReadableStream<Uint8Array>);
+    this.chunks = this.body[Symbol.asyncIterator]();
+
+    // Collect enough bytes to check the real file type before handing anything out
+    const head: Buffer[] = [];
+    let headLength = 0;
+    let done = false;
+
+    while (headLength < SNIFF_LENGTH) {
+      const next = await this.chunks.next();
+      if (next.done) {
+        done = true;
+        break;
+      }
+      head.push(this.count(next.value));
+      headLength += next.value.length;
+    }
+
+    const content = Buffer.concat(head);
+
+    if (allowedMimeTypes) {
+      const rejection = checkFileContent(this.fileName, content.subarray(0, SNIFF_LENGTH), allowedMimeTypes);
+      if (rejection) {
+        throw new RejectedFileError(rejection.reason, rejection.message);
+      }
+    }
+
+    if (done) {
+      this.finish();
+      if (content.length === 0) return null;
+
+      // Push the whole file now and end on the next read
+      this.chunks = emptyIterator();
+    }
+
+    return content;
+  }
+
+  /**
+   * Count chunk against the size limits
+   */
+  private count(chunk: Buffer): Buffer {
+    const error = countChunk(
+      this.fileName, chunk, this.file, this.contentLength, this.bundle, this.options
+    );
+    if (error) {
+      throw error;
+    }
+    return chunk;
+  }
+
+  /**
+   * Report downloaded file
+   */
+  private finish(): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    const duration = Date.now() - this.startTime;
+    this.logger?.debug(`[${this.fileName}] Streamed: ${Math.round(this.file.bytes / 1024)}KB in ${duration}ms`);
+    this.options.onFileDone?.(this.fileName, {
+      bytes: this.file.bytes,
+      duration,
+      attempts: this.attempts.count,
+    });
+  }
+}
+
+/**
+ * Iterator that is already done
+ */
+function emptyIterator(): AsyncIterator<Buffer> {
+  return {
+    next: async () => ({ done: true, value: undefined }),
+  };
+}
+
+/**
+ * Destination of downloaded files
+ */
+interface FileSink<T> {
+  /** Prepare destination before downloads start */
+  init(): Promise<void>;
+  /** Check file name and prepare destination of a file before its first attempt */
+  prepare(fileName: string): Promise<void>;
+  /** Writable receiving content of an attempt, replacing earlier attempts */
+  createWriteStream(fileName: string): Writable;
+  /** First bytes of written content for type sniffing */
+  readHead(fileName: string): Promise<Buffer>;
+  /** Drop written content */
+  discard(fileName: string): Promise<void>;
+  /** Value of the file in the file map */
+  get(fileName: string): T;
+  /** Local path of the file, only for sinks writing to disk (required for assetCache) */
+  getPath?(fileName: string): string;
+}
+
+/**
+ * Sink writing files to a temporary directory
+ */
+class DiskFileSink implements FileSink<string> {
+  private tempDir: string;
+
+  constructor(tempDir: string) {
+    this.tempDir = path.resolve(tempDir);
+  }
+
+  /**
+   * Create temporary directory
+   */
+  async init(): Promise<void> {
+    await fs.mkdir(this.tempDir, { recursive: true });
+  }
+
+  /**
+   * Never write outside the temporary directory
+   */
+  async prepare(fileName: string): Promise<void> {
+    const filePath = this.getPath(fileName);
+
+    if (!filePath.startsWith(this.tempDir + path.sep)) {
+      throw new RejectedFileError('INVALID_FILE_NAME', 'Unsafe file name');
+    }
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+  }
+
+  /**
+   * Open file for writing, truncating earlier attempts
+   */
+  createWriteStream(fileName: string): Writable {
+    return createWriteStream(this.getPath(fileName));
+  }
+
+  /**
+   * Read the first bytes of the file
+   */
+  readHead(fileName: string): Promise<Buffer> {
+    return readFileHead(this.getPath(fileName));
+  }
+
+  /**
+   * Remove the file
+   */
+  async discard(fileName: string): Promise<void> {
+    await fs.rm(this.getPath(fileName), { force: true });
+  }
+
+  /**
+   * Path of the file
+   */
+  get(fileName: string): string {
+    return this.getPath(fileName);
+  }
+
+  /**
+   * Path of the file inside the temporary directory
+   */
+  getPath(fileName: string): string {
+    return path.resolve(this.tempDir, fileName);
   }
 }
 
 /**
- * Download a single file from Verstka
+ * Sink keeping files in memory
+ */
+class MemoryFileSink implements FileSink<Buffer> {
+  private files = new Map<string, Buffer>();
+
+  /** Nothing to prepare */
+  async init(): Promise<void> {}
+
+  /** Nothing to prepare */
+  async prepare(): Promise<void> {}
+
+  /**
+   * Collect chunks, storing the content once the attempt completes
+   */
+  createWriteStream(fileName: string): Writable {
+    const chunks: Buffer[] = [];
+    const files = this.files;
+
+    return new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+      final(callback) {
+        files.set(fileName, Buffer.concat(chunks));
+        callback();
+      },
+    });
+  }
+
+  /**
+   * First bytes of the content
+   */
+  async readHead(fileName: string): Promise<Buffer> {
+    return this.get(fileName).subarray(0, SNIFF_LENGTH);
+  }
+
+  /**
+   * Release the content
+   */
+  async discard(fileName: string): Promise<void> {
+    this.files.delete(fileName);
+  }
+
+  /**
+   * Content of the file
+   */
+  get(fileName: string): Buffer {
+    return this.files.get(fileName) || Buffer.alloc(0);
+  }
+}
+
+/**
+ * Download a single file from Verstka, streaming it to the sink
  * 
  * @param fileName - Name of the file to download
  * @param downloadUrl - Base download URL
- * @param tempDir - Directory to save the file
- * @param timeout - Request timeout in milliseconds
+ * @param sink - Destination of the file
+ * @param options - Download options
+ * @param bundle - Bytes downloaded so far for the bundle
  * @param logger - Optional logger instance
+ * @param cached - Entry of the file in the previous manifest
  * @returns Download result
  */
-async function downloadSingleFile(
+async function downloadSingleFile<T>(
   fileName: string,
   downloadUrl: string,
-  tempDir: string,
-  timeout: number,
-  logger?: VerstkaLogger
-): Promise<{ success: true; filePath: string } | { success: false; error: string }> {
+  sink: FileSink<T>,
+  options: DownloadOptions,
+  bundle: BundleUsage,
+  logger?: Logger,
+  cached?: AssetCacheEntry
+): Promise<
+  | { success: true; stats: DownloadedFileStats; entry?: AssetCacheEntry }
+  | { success: false; error: string; attempts: number; reason: FailedFileReason; status?: number }
+> {
+  const { maxFileSize, maxTotalSize, allowedMimeTypes = DEFAULT_ALLOWED_MIME_TYPES } = options;
   const startTime = Date.now();
+  const attempts = { count: 0 };
+  const fileUrl = `${downloadUrl}/${fileName}`;
+  const filePath = sink.getPath?.(fileName);
   
   try {
-    const fileUrl = `${downloadUrl}/${fileName}`;
+    await sink.prepare(fileName);
+
     logger?.debug(`[${fileName}] Starting download...`);
+    options.onFileStart?.(fileName);
+
+    // Cached content can only be restored to disk
+    const assetCache = filePath ? options.assetCache : undefined;
+    let conditional = Boolean(cached && assetCache && await assetCache.has(cached.hash).catch(() => false));
     
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-    
-    const fileResponse = await fetch(fileUrl, {
-      signal: controller.signal
-    });
-    
-    clearTimeout(timeoutId);
-    
-    if (!fileResponse.ok) {
-      throw new Error(`HTTP ${fileResponse.status}: ${fileResponse.statusText}`);
+    const download = await withRetry(async (signal, onProgress) => {
+      if (maxTotalSize !== undefined && bundle.bytes >= maxTotalSize) {
+        throw new RejectedFileError('SIZE_LIMIT', `Bundle size limit of ${maxTotalSize} bytes exceeded`);
+      }
+
+      const fileResponse = await fetchChecked(
+        getTransport(options),
+        fileUrl,
+        signal,
+        conditional && cached ? getConditionalHeaders(cached) : {}
+      );
+      onProgress();
+      const etag = fileResponse.headers.get('etag') || cached?.etag;
+      const lastModified = fileResponse.headers.get('last-modified') || cached?.lastModified;
+
+      if (fileResponse.status === 304 && cached && assetCache && filePath) {
+        await fileResponse.body?.cancel().catch(() => undefined);
+
+        try {
+          await assetCache.restore(cached.hash, filePath);
+        } catch (error) {
+          // Content vanished from the cache, fetch it without conditions
+          conditional = false;
+          throw error;
+        }
+
+        return { bytes: cached.bytes, hash: cached.hash, etag, lastModified, notModified: true };
+      }
+
+      const contentLength = Number(fileResponse.headers.get('content-length'));
+
+      if (maxFileSize !== undefined && contentLength > maxFileSize) {
+        await fileResponse.body?.cancel().catch(() => undefined);
+        throw new RejectedFileError(
+          'SIZE_LIMIT',
+          `File size ${contentLength} exceeds limit of ${maxFileSize} bytes`
+        );
+      }
+
+      if (!fileResponse.body) {
+        throw new VerstkaNetworkError('Empty response body', fileUrl);
+      }
+
+      const file: FileUsage = { bytes: 0 };
+      const hash = createHash('sha256');
+      const counter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          onProgress();
+          hash.update(chunk);
+          callback(countChunk(fileName, chunk, file, contentLength, bundle, options), chunk);
+        },
+      });
+
+      try {
+        await pipeline(
+          Readable.fromWeb(fileResponse.body as WebReadableStream<Uint8Array>),
+          counter,
+          sink.createWriteStream(fileName),
+          { signal }
+        );
+      } catch (error) {
+        // Do not count bytes of a failed attempt towards the bundle
+        bundle.bytes -= file.bytes;
+        throw error;
+      }
+
+      return { bytes: file.bytes, hash: hash.digest('hex'), etag, lastModified, notModified: false };
+    }, options, fileUrl, logger, fileName, attempts);
+    const { bytes } = download;
+
+    // Check real file type by magic bytes
+    if (allowedMimeTypes) {
+      const rejection = checkFileContent(fileName, await sink.readHead(fileName), allowedMimeTypes);
+      if (rejection) {
+        throw new RejectedFileError(rejection.reason, rejection.message);
+      }
     }
     
-    const fileBuffer = Buffer.from(await fileResponse.arrayBuffer());
-    const filePath = path.join(tempDir, fileName);
-    
-    await fs.writeFile(filePath, fileBuffer);
+    if (assetCache && filePath && !download.notModified) {
+      await assetCache.put(download.hash, filePath).catch(error => {
+        logger?.warn(`[${fileName}] Failed to add file to asset cache:`, error);
+      });
+    }
     
     const duration = Date.now() - startTime;
-    const sizeKB = Math.round(fileBuffer.length / 1024);
+    const sizeKB = Math.round(bytes / 1024);
     
-    logger?.debug(`[${fileName}] Saved: ${sizeKB}KB in ${duration}ms`);
+    logger?.debug(
+      `[${fileName}] ${download.notModified ? 'Restored from cache' : 'Saved'}: ${sizeKB}KB in ${duration}ms`
+    );
     
     return {
       success: true,
-      filePath
+      stats: {
+        bytes,
+        duration,
+        attempts: attempts.count,
+        ...(download.notModified ? { cached: true } : {}),
+      },
+      entry: {
+        hash: download.hash,
+        bytes,
+        ...(download.etag ? { etag: download.etag } : {}),
+        ...(download.lastModified ? { lastModified: download.lastModified } : {}),
+      },
     };
     
   } catch (error) {
@@ -168,24 +921,291 @@ async function downloadSingleFile(
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     
     logger?.error(`[${fileName}] Failed after ${duration}ms:`, errorMessage);
+    await sink.discard(fileName).catch(() => undefined);
     
     return {
       success: false,
-      error: errorMessage
+      error: errorMessage,
+      attempts: attempts.count,
+      reason: getFailureReason(error),
+      ...(error instanceof VerstkaApiError && error.status ? { status: error.status } : {}),
+    };
+  }
+}
+
+/**
+ * Read the first bytes of a file for type sniffing
+ */
+async function readFileHead(filePath: string): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r');
+
+  try {
+    const buffer = Buffer.alloc(SNIFF_LENGTH);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_LENGTH, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Map a download error to a failure reason
+ */
+function getFailureReason(error: unknown): FailedFileReason {
+  if (error instanceof RejectedFileError) return error.reason;
+  if (error instanceof VerstkaApiError) return 'HTTP_ERROR';
+  return 'NETWORK_ERROR';
+}
+
+/**
+ * File rejected by a size or safety check (never retried)
+ */
+class RejectedFileError extends Error {
+  readonly reason: FailedFileReason;
+
+  constructor(reason: FailedFileReason, message: string) {
+    super(message);
+    this.reason = reason;
+  }
+}
+
+/**
+ * Conditional request headers for a cached file
+ */
+function getConditionalHeaders(cached: AssetCacheEntry): Record<string, string> {
+  return {
+    ...(cached.etag ? { 'If-None-Match': cached.etag } : {}),
+    ...(cached.lastModified ? { 'If-Modified-Since': cached.lastModified } : {}),
+  };
+}
+
+/**
+ * Fetch URL and throw VerstkaApiError on non-2xx responses
+ * 304 is returned as is for conditional requests. Redirects are not followed,
+ * since only download_url itself was checked against the trusted hosts.
+ * 
+ * @param transport - HTTP transport
+ * @param url - URL to fetch
+ * @param signal - Abort signal
+ * @param headers - Request headers
+ * @returns Successful response
+ */
+async function fetchChecked(
+  transport: HttpTransport,
+  url: string,
+  signal: AbortSignal,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const response = await transport.request({
+    url,
+    signal,
+    headers,
+    redirect: 'manual',
+  });
+
+  const isNotModified = response.status === 304 && Object.keys(headers).length > 0;
+
+  if (!response.ok && !isNotModified) {
+    // Release the connection before retrying
+    await response.body?.cancel().catch(() => undefined);
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+    throw new VerstkaApiError(`HTTP ${response.status}: ${response.statusText}`, {
+      endpoint: url,
+      status: response.status,
+      ...(retryAfter !== undefined ? { retryAfter } : {}),
+    });
+  }
+
+  return response;
+}
+
+/**
+ * Transport from options or the shared default
+ */
+function getTransport(options: DownloadOptions): HttpTransport {
+  return options.transport || getDefaultTransport();
+}
+
+/**
+ * Run a request with per-attempt timeouts, retrying network errors and
+ * retryable statuses with exponential backoff and jitter
+ * An attempt is aborted when response headers do not arrive within timeout, or,
+ * once the operation reports progress, when no progress is reported within idleTimeout.
+ * 
+ * @param operation - Request to run, receives an abort signal and a function to report progress
+ * @param options - Download options with retry settings
+ * @param endpoint - URL being requested, used in errors
+ * @param logger - Optional logger instance
+ * @param label - Label for log messages
+ * @param attempts - Counter updated with the number of attempts made
+ * @returns Result of the operation
+ */
+export async function withRetry<T>(
+  operation: (signal: AbortSignal, onProgress: () => void) => Promise<T>,
+  options: DownloadOptions,
+  endpoint: string,
+  logger?: Logger,
+  label: string = 'request',
+  attempts: { count: number } = { count: 0 }
+): Promise<T> {
+  const {
+    timeout = 30000,
+    retries = 3,
+    retryDelay = 500,
+    maxRetryDelay = 10000,
+    retryStatuses = DEFAULT_RETRY_STATUSES,
+  } = options;
+  const idleTimeout = options.idleTimeout ?? timeout;
+
+  for (let attempt = 0; ; attempt++) {
+    attempts.count = attempt + 1;
+
+    const controller = new AbortController();
+    let activeTimeout = timeout;
+    let timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onProgress = () => {
+      clearTimeout(timeoutId);
+      activeTimeout = idleTimeout;
+      timeoutId = setTimeout(() => controller.abort(), idleTimeout);
     };
+
+    try {
+      return await operation(controller.signal, onProgress);
+
+    } catch (caught) {
+      const error = toRequestError(caught, controller.signal.aborted, endpoint, activeTimeout);
+      const isRetryable = error instanceof VerstkaApiError
+        ? error.status !== undefined && retryStatuses.includes(error.status)
+        : !(error instanceof RejectedFileError);
+
+      if (!isRetryable || attempt >= retries) {
+        throw error;
+      }
+
+      const backoff = Math.min(maxRetryDelay, retryDelay * 2 ** attempt);
+      const jittered = backoff / 2 + Math.random() * (backoff / 2);
+      const delay = error instanceof VerstkaApiError && error.retryAfter !== undefined
+        ? Math.min(maxRetryDelay, error.retryAfter)
+        : jittered;
+
+      logger?.debug(
+        `[${label}] Attempt ${attempt + 1} failed (${error.message}), retrying in ${Math.round(delay)}ms`
+      );
+
+      await new Promise(resolve => setTimeout(resolve, delay));
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * Convert fetch and stream failures to SDK errors
+ */
+function toRequestError(
+  error: unknown,
+  timedOut: boolean,
+  endpoint: string,
+  timeout: number
+): Error {
+  if (error instanceof VerstkaError || error instanceof RejectedFileError) {
+    return error;
+  }
+
+  if (timedOut) {
+    return new VerstkaTimeoutError(endpoint, timeout, error);
   }
+
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new VerstkaNetworkError(`Request to ${endpoint} failed: ${message}`, endpoint, error);
+}
+
+/**
+ * Parse Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
 }
 
 /**
  * Create a unique temporary directory for downloads
  * 
  * @param prefix - Directory name prefix
+ * @param baseDir - Parent directory (default: os.tmpdir())
  * @returns Path to the created temporary directory
  */
-export function createTempDirectory(prefix: string = 'verstka'): string {
+export function createTempDirectory(prefix: string = 'verstka', baseDir: string = os.tmpdir()): string {
   const timestamp = Date.now();
   const randomSuffix = Math.random().toString(36).substring(2, 8);
   const dirName = `${prefix}-${timestamp}-${randomSuffix}`;
   
-  return path.join(os.tmpdir(), dirName);
+  return path.join(baseDir, dirName);
+}
+
+/**
+ * Remove a temporary directory with all its files
+ * 
+ * @param tempDir - Directory to remove
+ * @param logger - Optional logger instance
+ */
+export async function removeTempDirectory(tempDir: string, logger?: Logger): Promise<void> {
+  try {
+    await fs.rm(tempDir, { recursive: true, force: true });
+    logger?.debug(`Removed temporary directory: ${tempDir}`);
+  } catch (error) {
+    logger?.warn(`Failed to remove temporary directory ${tempDir}:`, error);
+  }
+}
+
+/**
+ * Delete orphaned verstka-* directories older than ttl
+ * 
+ * @param options - Base directory and ttl in milliseconds
+ * @param logger - Optional logger instance
+ * @returns Paths of removed directories
+ */
+export async function sweepTempDirectories(
+  options: TempSweepOptions = {},
+  logger?: Logger
+): Promise<string[]> {
+  const { baseDir = os.tmpdir(), ttl = 24 * 60 * 60 * 1000 } = options;
+  const threshold = Date.now() - ttl;
+  const removed: string[] = [];
+
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(baseDir, { withFileTypes: true });
+  } catch (error) {
+    logger?.warn(`Failed to read temporary directory ${baseDir}:`, error);
+    return removed;
+  }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || !entry.name.startsWith('verstka-')) continue;
+
+    const dirPath = path.join(baseDir, entry.name);
+    try {
+      const stats = await fs.stat(dirPath);
+      if (stats.mtimeMs < threshold) {
+        await fs.rm(dirPath, { recursive: true, force: true });
+        removed.push(dirPath);
+      }
+    } catch (error) {
+      logger?.warn(`Failed to remove orphaned directory ${dirPath}:`, error);
+    }
+  }
+
+  if (removed.length > 0) {
+    logger?.info(`Removed ${removed.length} orphaned temporary directories from ${baseDir}`);
+  }
+
+  return removed;
 } 
\ No newline at end of file
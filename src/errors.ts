@@ -0,0 +1,189 @@
+/**
+ * Error classes for Verstka SDK
+ */
+
+import type { VerstkaApiResponse, FailedFile } from './types.js';
+
+/**
+ * Base class for all errors thrown by the SDK
+ */
+export class VerstkaError extends Error {
+  /** Error code */
+  readonly code: string;
+  /** API response */
+  readonly response: VerstkaApiResponse | undefined;
+
+  constructor(
+    code: string,
+    message: string,
+    options: { response?: VerstkaApiResponse; cause?: unknown } = {}
+  ) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = new.target.name;
+    this.code = code;
+    this.response = options.response;
+  }
+}
+
+/**
+ * Thrown when Verstka API answers with an HTTP error or rc other than 1
+ */
+export class VerstkaApiError extends VerstkaError {
+  /** Endpoint that was called */
+  readonly endpoint: string;
+  /** Result code from the API response */
+  readonly rc: number | undefined;
+  /** Result message from the API response */
+  readonly rm: string | undefined;
+  /** HTTP status of the response */
+  readonly status: number | undefined;
+  /** Delay in milliseconds requested by the Retry-After header */
+  readonly retryAfter: number | undefined;
+
+  constructor(
+    message: string,
+    details: {
+      endpoint: string;
+      rc?: number;
+      rm?: string;
+      status?: number;
+      retryAfter?: number;
+      response?: VerstkaApiResponse;
+    }
+  ) {
+    super('API_ERROR', message, details.response ? { response: details.response } : {});
+    this.endpoint = details.endpoint;
+    this.rc = details.rc;
+    this.rm = details.rm;
+    this.status = details.status;
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/**
+ * Thrown when a request to Verstka fails without a response
+ */
+export class VerstkaNetworkError extends VerstkaError {
+  /** Endpoint that was called */
+  readonly endpoint: string;
+
+  constructor(message: string, endpoint: string, cause?: unknown) {
+    super('NETWORK_ERROR', message, { cause });
+    this.endpoint = endpoint;
+  }
+}
+
+/**
+ * Thrown when a request to Verstka takes longer than the configured timeout
+ */
+export class VerstkaTimeoutError extends VerstkaError {
+  /** Endpoint that was called */
+  readonly endpoint: string;
+  /** Timeout in milliseconds */
+  readonly timeout: number;
+
+  constructor(endpoint: string, timeout: number, cause?: unknown) {
+    super('TIMEOUT', `Request to ${endpoint} timed out after ${timeout}ms`, { cause });
+    this.endpoint = endpoint;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Reason why a callback was rejected
+ */
+export type SignatureErrorCode =
+  | 'MISSING_SIGNATURE'
+  | 'INVALID_SIGNATURE'
+  | 'MISSING_CALLBACK_URL'
+  | 'UNTRUSTED_DOWNLOAD_URL'
+  | 'UNKNOWN_TENANT'
+  | 'MISSING_TOKEN'
+  | 'INVALID_TOKEN'
+  | 'EXPIRED_TOKEN'
+  | 'REVOKED_SESSION';
+
+/**
+ * Thrown when callback data from Verstka fails verification
+ */
+export class VerstkaSignatureError extends VerstkaError {
+  declare readonly code: SignatureErrorCode;
+
+  constructor(code: SignatureErrorCode, message: string) {
+    super(code, message);
+  }
+}
+
+/**
+ * Reason why a callback body was rejected
+ */
+export type PayloadErrorCode = 'INVALID_PAYLOAD' | 'PAYLOAD_TOO_LARGE';
+
+/**
+ * Thrown when a callback request body cannot be accepted
+ */
+export class VerstkaPayloadError extends VerstkaError {
+  declare readonly code: PayloadErrorCode;
+
+  constructor(code: PayloadErrorCode, message: string) {
+    super(code, message);
+  }
+}
+
+/**
+ * Thrown when a method needs an SDK option or capability that is not configured
+ */
+export class VerstkaConfigurationError extends VerstkaError {
+  /** Missing option or capability, e.g. 'saveQueue' */
+  readonly option: string;
+
+  constructor(option: string, message: string = `${option} is not configured`) {
+    super('NOT_CONFIGURED', message);
+    this.option = option;
+  }
+}
+
+/**
+ * Kind of entity that was not found
+ */
+export type NotFoundErrorCode = 'REVISION_NOT_FOUND' | 'TENANT_NOT_FOUND';
+
+/**
+ * Thrown when a revision or tenant requested by ID does not exist
+ */
+export class VerstkaNotFoundError extends VerstkaError {
+  declare readonly code: NotFoundErrorCode;
+
+  constructor(code: NotFoundErrorCode, message: string) {
+    super(code, message);
+  }
+}
+
+/**
+ * Reason why a value was rejected
+ */
+export type ValidationErrorCode = 'INVALID_ID' | 'INVALID_HASH' | 'INVALID_STORAGE_KEY';
+
+/**
+ * Thrown when an ID, hash or storage key cannot be mapped to a safe path
+ */
+export class VerstkaValidationError extends VerstkaError {
+  declare readonly code: ValidationErrorCode;
+
+  constructor(code: ValidationErrorCode, message: string) {
+    super(code, message);
+  }
+}
+
+/**
+ * Thrown when files of a session could not be downloaded
+ */
+export class VerstkaDownloadError extends VerstkaError {
+  /** Files that are still missing */
+  readonly failedFiles: FailedFile[];
+
+  constructor(message: string, failedFiles: FailedFile[] = []) {
+    super('DOWNLOAD_FAILED', message);
+    this.failedFiles = failedFiles;
+  }
+}
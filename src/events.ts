@@ -0,0 +1,312 @@
+/**
+ * Lifecycle events and progress reporting
+ */
+
+import { EventEmitter } from 'events';
+import type {
+  DownloadOptions,
+  FailedFile,
+  FileProgress,
+  SaveOutcome,
+  SaveProgress,
+  SaveProgressPhase,
+  VerstkaEventContext,
+  VerstkaEventMap,
+} from './types.js';
+import type { Logger } from './logger.js';
+import { METRICS } from './telemetry.js';
+import type { TelemetrySpan, VerstkaMetrics, VerstkaTracer } from './telemetry.js';
+
+/**
+ * Listener of an SDK event
+ */
+export type VerstkaEventListener<K extends keyof VerstkaEventMap> = (
+  payload: VerstkaEventMap[K]
+) => void;
+
+/**
+ * Typed event emitter of the SDK
+ * Errors thrown by listeners are logged and never break a save.
+ */
+export class VerstkaEventEmitter {
+  private emitter = new EventEmitter();
+  private logger: Logger | undefined;
+
+  constructor(logger?: Logger) {
+    this.logger = logger;
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Add listener for an event
+   */
+  on<K extends keyof VerstkaEventMap>(event: K, listener: VerstkaEventListener<K>): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Add listener called only for the next event
+   */
+  once<K extends keyof VerstkaEventMap>(event: K, listener: VerstkaEventListener<K>): this {
+    this.emitter.once(event, listener);
+    return this;
+  }
+
+  /**
+   * Remove listener
+   */
+  off<K extends keyof VerstkaEventMap>(event: K, listener: VerstkaEventListener<K>): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Check whether an event has listeners
+   */
+  hasListeners(event: keyof VerstkaEventMap): boolean {
+    return this.emitter.listenerCount(event) > 0;
+  }
+
+  /**
+   * Call listeners of an event, logging their errors
+   */
+  emit<K extends keyof VerstkaEventMap>(event: K, payload: VerstkaEventMap[K]): void {
+    for (const listener of this.emitter.rawListeners(event)) {
+      try {
+        (listener as VerstkaEventListener<K>)(payload);
+      } catch (error) {
+        this.logger?.error(`Listener of ${event} failed:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Observers of a single save
+ */
+export interface SaveProgressTrackerOptions {
+  /** Progress callback of the save call */
+  onProgress?: (progress: SaveProgress) => void;
+  /** Logger for callback errors */
+  logger?: Logger;
+  /** Tracer for the save span and file spans */
+  tracer?: VerstkaTracer;
+  /** Metrics sink */
+  metrics?: VerstkaMetrics;
+}
+
+/**
+ * Tracks progress of a single save and reports it as events, to onProgress,
+ * as spans (a save span with a child span per file) and as metrics
+ */
+export class SaveProgressTracker {
+  private events: VerstkaEventEmitter;
+  private context: VerstkaEventContext;
+  private onProgress: ((progress: SaveProgress) => void) | undefined;
+  private logger: Logger | undefined;
+  private tracer: VerstkaTracer | undefined;
+  private metrics: VerstkaMetrics | undefined;
+  private span: TelemetrySpan | undefined;
+  private fileSpans = new Map<string, TelemetrySpan>();
+  private ended = false;
+  private startTime = Date.now();
+  private progress: Omit<SaveProgress, keyof VerstkaEventContext | 'phase'> = {
+    filesTotal: 0,
+    filesDone: 0,
+    filesFailed: 0,
+    bytes: 0,
+  };
+
+  constructor(
+    events: VerstkaEventEmitter,
+    context: VerstkaEventContext,
+    options: SaveProgressTrackerOptions = {}
+  ) {
+    this.events = events;
+    this.context = context;
+    this.onProgress = options.onProgress;
+    this.logger = options.logger;
+    this.tracer = options.tracer;
+    this.metrics = options.metrics;
+    this.span = this.tracer?.startSpan('verstka.save', this.getAttributes());
+  }
+
+  /**
+   * Report save start
+   */
+  start(downloadUrl: string): void {
+    this.events.emit('save:start', { ...this.context, downloadUrl });
+    this.report('start');
+  }
+
+  /**
+   * Download callbacks reporting file list, progress and results
+   */
+  getDownloadCallbacks(): Pick<
+    DownloadOptions,
+    'onFileList' | 'onFileStart' | 'onFileProgress' | 'onFileDone' | 'onFileFailed'
+  > {
+    return {
+      onFileList: (fileNames: string[]) => {
+        this.progress.filesTotal += fileNames.length;
+        this.events.emit('download:list', { ...this.context, fileNames, files: fileNames.length });
+        this.report('download');
+      },
+      onFileStart: (fileName: string) => {
+        if (this.tracer && this.span) {
+          this.fileSpans.set(
+            fileName,
+            this.tracer.startSpan('verstka.download_file', { 'verstka.file_name': fileName }, this.span)
+          );
+        }
+      },
+      onFileProgress: (progress: FileProgress) => {
+        this.progress.bytes = progress.bundleBytes;
+        this.events.emit('download:file:progress', { ...this.context, ...progress });
+        this.report('download');
+      },
+      onFileDone: (fileName, stats) => {
+        this.progress.filesDone++;
+        this.metrics?.increment(METRICS.DOWNLOAD_FILES);
+        this.metrics?.increment(METRICS.DOWNLOAD_BYTES, stats.bytes);
+        this.metrics?.record(METRICS.DOWNLOAD_DURATION, stats.duration);
+        this.recordRetries(stats.attempts);
+        this.endFileSpan(fileName, {
+          'verstka.bytes': stats.bytes,
+          'verstka.attempts': stats.attempts,
+        });
+
+        this.events.emit('download:file:done', { ...this.context, fileName, ...stats });
+        this.report('download');
+      },
+      onFileFailed: (failedFile: FailedFile) => {
+        this.progress.filesFailed++;
+        this.metrics?.increment(METRICS.DOWNLOAD_FAILURES, 1, { reason: failedFile.reason || 'UNKNOWN' });
+        this.recordRetries(failedFile.attempts);
+        this.endFileSpan(failedFile.fileName, {
+          'verstka.attempts': failedFile.attempts || 0,
+          'verstka.failure_reason': failedFile.reason || 'UNKNOWN',
+        }, failedFile.error);
+
+        this.events.emit('download:file:failed', { ...this.context, ...failedFile });
+        this.report('download');
+      },
+    };
+  }
+
+  /**
+   * Report a new phase of the save
+   */
+  phase(phase: SaveProgressPhase): void {
+    this.report(phase);
+  }
+
+  /**
+   * Report finished saveHandler
+   */
+  done(outcome: SaveOutcome): void {
+    const duration = Date.now() - this.startTime;
+
+    this.events.emit('save:handler:done', {
+      ...this.context,
+      outcome,
+      files: this.progress.filesDone,
+      failedFiles: this.progress.filesFailed,
+      bytes: this.progress.bytes,
+      duration,
+    });
+    this.report('done');
+
+    this.metrics?.record(METRICS.SAVE_DURATION, duration, { outcome });
+    this.endSpan({
+      'verstka.outcome': outcome,
+      'verstka.files': this.progress.filesDone,
+      'verstka.failed_files': this.progress.filesFailed,
+      'verstka.bytes': this.progress.bytes,
+    });
+  }
+
+  /**
+   * Report failed save
+   */
+  error(error: unknown): void {
+    this.events.emit('save:error', {
+      ...this.context,
+      error,
+      duration: Date.now() - this.startTime,
+    });
+
+    this.metrics?.increment(METRICS.SAVE_FAILURES);
+    if (!this.ended) {
+      this.span?.recordException(error);
+    }
+    this.endSpan({}, error instanceof Error ? error.message : 'Save failed');
+  }
+
+  /**
+   * Span attributes of the save context
+   */
+  private getAttributes(): Record<string, string | boolean> {
+    return {
+      'verstka.material_id': this.context.materialId,
+      'verstka.is_mobile': this.context.isMobile,
+      ...(this.context.sessionId ? { 'verstka.session_id': this.context.sessionId } : {}),
+    };
+  }
+
+  /**
+   * Count attempts after the first one as retries
+   */
+  private recordRetries(attempts: number | undefined): void {
+    if (attempts && attempts > 1) {
+      this.metrics?.increment(METRICS.DOWNLOAD_RETRIES, attempts - 1);
+    }
+  }
+
+  /**
+   * End span of a file
+   */
+  private endFileSpan(
+    fileName: string,
+    attributes: Record<string, string | number>,
+    errorMessage?: string
+  ): void {
+    const span = this.fileSpans.get(fileName);
+    if (!span) return;
+
+    span.setAttributes(attributes);
+    if (errorMessage) {
+      span.setError(errorMessage);
+    }
+    span.end();
+    this.fileSpans.delete(fileName);
+  }
+
+  /**
+   * End save span once
+   */
+  private endSpan(attributes: Record<string, string | number>, errorMessage?: string): void {
+    if (this.ended || !this.span) return;
+    this.ended = true;
+
+    this.span.setAttributes(attributes);
+    if (errorMessage) {
+      this.span.setError(errorMessage);
+    }
+    this.span.end();
+  }
+
+  /**
+   * Call onProgress with current progress
+   */
+  private report(phase: SaveProgressPhase): void {
+    if (!this.onProgress) return;
+
+    try {
+      this.onProgress({ ...this.context, phase, ...this.progress });
+    } catch (error) {
+      this.logger?.error('onProgress callback failed:', error);
+    }
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * File name and file type safeguards for downloaded files
+ */
+
+import * as path from 'path';
+
+/**
+ * Extensions allowed by default
+ */
+export const DEFAULT_ALLOWED_EXTENSIONS = [
+  '.jpg', '.jpeg', '.png', '.gif', '.webp', '.avif', '.svg', '.ico',
+  '.mp4', '.webm', '.mp3',
+  '.woff', '.woff2', '.ttf', '.otf',
+  '.css', '.js', '.json', '.html', '.txt',
+];
+
+/**
+ * MIME types allowed by default
+ */
+export const DEFAULT_ALLOWED_MIME_TYPES = [
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif',
+  'image/svg+xml', 'image/x-icon',
+  'video/mp4', 'video/webm', 'audio/mpeg',
+  'font/woff', 'font/woff2', 'font/ttf', 'font/otf',
+  'text/css', 'application/javascript', 'application/json', 'text/html', 'text/plain',
+];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html',
+  '.css': 'text/css',
+  '.js': 'application/javascript',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mp3': 'audio/mpeg',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.pdf': 'application/pdf',
+};
+
+/**
+ * MIME types whose content is text and cannot be told apart by magic bytes
+ */
+const TEXT_TYPES = new Set([
+  'text/html', 'text/css', 'text/plain', 'application/javascript',
+  'application/json', 'image/svg+xml',
+]);
+
+/**
+ * Number of leading bytes needed by sniffMimeType
+ */
+export const SNIFF_LENGTH = 512;
+
+/**
+ * Get MIME type from file extension
+ *
+ * @param fileName - File name
+ * @returns MIME type without charset (undefined if unknown)
+ */
+export function getMimeType(fileName: string): string | undefined {
+  return CONTENT_TYPES[path.extname(fileName).toLowerCase()];
+}
+
+/**
+ * Guess Content-Type header from file extension
+ *
+ * @param fileName - File name
+ * @returns Content-Type (application/octet-stream if unknown)
+ */
+export function getContentType(fileName: string): string {
+  const mimeType = getMimeType(fileName);
+
+  if (!mimeType) {
+    return 'application/octet-stream';
+  }
+
+  return TEXT_TYPES.has(mimeType) && mimeType !== 'image/svg+xml'
+    ? `${mimeType}; charset=utf-8`
+    : mimeType;
+}
+
+/**
+ * Normalize a file name from the remote file list
+ * Rejects absolute paths, '..' segments and control characters,
+ * removes '.' and empty segments and converts backslashes to '/'.
+ *
+ * @param fileName - File name as listed by Verstka
+ * @returns Safe relative path, or null if the name is not allowed
+ */
+export function normalizeFileName(fileName: string): string | null {
+  if (typeof fileName !== 'string' || !fileName) {
+    return null;
+  }
+
+  for (let index = 0; index < fileName.length; index++) {
+    if (fileName.charCodeAt(index) < 0x20) {
+      return null;
+    }
+  }
+
+  const unified = fileName.replace(/\\/g, '/');
+
+  if (unified.startsWith('/') || /^[a-zA-Z]:/.test(unified)) {
+    return null;
+  }
+
+  const segments = unified.split('/').filter(segment => segment && segment !== '.');
+
+  if (segments.length === 0 || segments.some(segment => segment === '..')) {
+    return null;
+  }
+
+  return segments.join('/');
+}
+
+/**
+ * Detect MIME type from leading bytes of a file
+ *
+ * @param head - First bytes of the file (SNIFF_LENGTH is enough)
+ * @returns Detected MIME type, 'text/plain' for text content, or undefined if unknown
+ */
+export function sniffMimeType(head: Buffer): string | undefined {
+  const startsWith = (bytes: number[], offset: number = 0) =>
+    bytes.every((byte, index) => head[offset + index] === byte);
+  const ascii = (offset: number, length: number) =>
+    head.subarray(offset, offset + length).toString('latin1');
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'image/gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') return 'image/webp';
+  if (startsWith([0x00, 0x00, 0x01, 0x00])) return 'image/x-icon';
+
+  if (ascii(4, 4) === 'ftyp') {
+    const brand = ascii(8, 4);
+    return brand === 'avif' || brand === 'avis' ? 'image/avif' : 'video/mp4';
+  }
+
+  if (startsWith([0x1a, 0x45, 0xdf, 0xa3])) return 'video/webm';
+  if (ascii(0, 3) === 'ID3' || (head[0] === 0xff && ((head[1] || 0) & 0xe0) === 0xe0)) {
+    return 'audio/mpeg';
+  }
+
+  if (ascii(0, 4) === 'wOFF') return 'font/woff';
+  if (ascii(0, 4) === 'wOF2') return 'font/woff2';
+  if (startsWith([0x00, 0x01, 0x00, 0x00]) || ascii(0, 4) === 'true') return 'font/ttf';
+  if (ascii(0, 4) === 'OTTO') return 'font/otf';
+  if (ascii(0, 5) === '%PDF-') return 'application/pdf';
+
+  /**
+   * Text content: no NUL bytes and no other binary control characters
+   */
+  if (head.length > 0 && !head.some(isBinaryControlByte)) {
+    return 'text/plain';
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a byte is a control character not found in text
+ * (tab, line breaks, form feed and escape are allowed)
+ */
+function isBinaryControlByte(byte: number): boolean {
+  return byte <= 0x08 || (byte >= 0x0e && byte <= 0x1a) || (byte >= 0x1c && byte <= 0x1f);
+}
+
+/**
+ * Check sniffed content against the file extension and the MIME allowlist
+ *
+ * @param fileName - Normalized file name
+ * @param head - First bytes of the file
+ * @param allowedMimeTypes - Allowed MIME types
+ * @returns Rejection reason and message, or null if the file is allowed
+ */
+export function checkFileContent(
+  fileName: string,
+  head: Buffer,
+  allowedMimeTypes: string[]
+): { reason: 'MIME_NOT_ALLOWED' | 'MIME_MISMATCH'; message: string } | null {
+  const expected = getMimeType(fileName);
+
+  /**
+   * Empty files carry no content to sniff, they match their extension
+   */
+  if (head.length === 0) {
+    const actual = expected || 'text/plain';
+
+    return allowedMimeTypes.includes(actual)
+      ? null
+      : { reason: 'MIME_NOT_ALLOWED', message: `File type ${actual} is not allowed` };
+  }
+
+  const sniffed = sniffMimeType(head);
+
+  if (!sniffed) {
+    return { reason: 'MIME_NOT_ALLOWED', message: 'Unknown file type' };
+  }
+
+  /**
+   * Text formats cannot be sniffed reliably, trust the extension for them
+   * but never let text content pass as a binary format (e.g. HTML saved as .png)
+   */
+  const isTextExpected = expected !== undefined && TEXT_TYPES.has(expected);
+  let actual = sniffed;
+
+  if (sniffed === 'text/plain') {
+    if (expected && !isTextExpected) {
+      return { reason: 'MIME_MISMATCH', message: `Text content does not match ${expected}` };
+    }
+    actual = expected || sniffed;
+  } else if (isTextExpected) {
+    return { reason: 'MIME_MISMATCH', message: `${sniffed} content does not match ${expected}` };
+  } else if (expected && expected.split('/')[0] !== sniffed.split('/')[0]) {
+    return { reason: 'MIME_MISMATCH', message: `${sniffed} content does not match ${expected}` };
+  }
+
+  if (!allowedMimeTypes.includes(actual)) {
+    return { reason: 'MIME_NOT_ALLOWED', message: `File type ${actual} is not allowed` };
+  }
+
+  return null;
+}
@@ -0,0 +1,63 @@
+/**
+ * File helpers shared by the file-backed stores and queue
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
+
+/**
+ * List directory, treating a missing directory as empty
+ */
+export async function readDir(dir: string): Promise<string[]> {
+  try {
+    return await fs.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read JSON file, undefined if it does not exist
+ */
+export async function readJsonFile<T>(filePath: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write file through a temporary file and rename, creating its directory
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, content);
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Map key to a safe file name: readable part of the key plus a hash of all of it
+ */
+export function getSafeFileName(key: string): string {
+  const hash = createHash('sha256').update(key).digest('hex').substring(0, 12);
+  const safeKey = key.replace(/[^\w-]/g, '_').substring(0, 100);
+
+  return `${safeKey}-${hash}`;
+}
+
+/**
+ * Whether an ID can be used as a file name as is
+ */
+export function isSafeId(id: string): boolean {
+  return /^[\w-]+$/.test(id);
+}
@@ -0,0 +1,400 @@
+/**
+ * HTTP callback handlers for Express, Fastify, Koa and node:http
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { Readable } from 'stream';
+import type {
+  CallbackData,
+  CallbackResponse,
+  CallbackHandlerOptions,
+  CallbackErrorMapping,
+  SaveHandler,
+  SaveMode,
+  SaveOptions,
+} from './types.js';
+import {
+  VerstkaApiError,
+  VerstkaConfigurationError,
+  VerstkaNetworkError,
+  VerstkaPayloadError,
+  VerstkaSignatureError,
+  VerstkaTimeoutError,
+} from './errors.js';
+import { getCallbackToken } from './sessions.js';
+import type { Logger } from './logger.js';
+
+/**
+ * Anything with a save method compatible with VerstkaContentManager.save
+ * (content manager or object returned by createVerstkaSDK)
+ */
+export interface CallbackSaver {
+  save<M extends SaveMode>(
+    callbackData: CallbackData,
+    saveHandler?: SaveHandler<M>,
+    options?: SaveOptions<M>
+  ): Promise<unknown>;
+  /** Required for handlers with async option */
+  enqueueSave?(callbackData: CallbackData, options?: SaveOptions): Promise<unknown>;
+  /** Logger for failed callback requests, whose details are not sent to Verstka */
+  getLogger?(): Logger;
+}
+
+/**
+ * Minimal Fastify request shape used by the handler
+ */
+export interface FastifyLikeRequest {
+  body?: unknown;
+  hostname?: string;
+  headers: Record<string, string | string[] | undefined>;
+  raw: IncomingMessage;
+}
+
+/**
+ * Minimal Fastify reply shape used by the handler
+ */
+export interface FastifyLikeReply {
+  code(statusCode: number): FastifyLikeReply;
+  header(name: string, value: string): FastifyLikeReply;
+  send(payload: unknown): unknown;
+}
+
+/**
+ * Minimal Koa context shape used by the handler
+ */
+export interface KoaLikeContext {
+  req: IncomingMessage;
+  host?: string;
+  request: { body?: unknown };
+  status: number;
+  body: unknown;
+  set(name: string, value: string): void;
+}
+
+/**
+ * Request handler for node:http and Express
+ */
+export type NodeCallbackHandler = (
+  req: IncomingMessage & { body?: unknown },
+  res: ServerResponse
+) => Promise<void>;
+
+const DEFAULT_BODY_LIMIT = 1024 * 1024;
+
+/**
+ * Default mapping of errors to HTTP status and Verstka response message
+ * Unexpected errors get a generic message, their details are only logged.
+ */
+export function defaultCallbackErrorMapper(error: unknown): CallbackErrorMapping {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+
+  if (error instanceof VerstkaSignatureError) {
+    return { status: 403, rm: `Callback rejected: ${message}` };
+  }
+
+  if (error instanceof VerstkaPayloadError) {
+    return { status: error.code === 'PAYLOAD_TOO_LARGE' ? 413 : 400, rm: message };
+  }
+
+  if (error instanceof VerstkaTimeoutError) {
+    return { status: 504, rm: `Verstka timeout: ${message}` };
+  }
+
+  if (error instanceof VerstkaApiError || error instanceof VerstkaNetworkError) {
+    return { status: 502, rm: `Verstka request failed: ${message}` };
+  }
+
+  return { status: 500, rm: 'Server error' };
+}
+
+/**
+ * Parse callback body into CallbackData
+ * Accepts urlencoded or JSON strings, Buffers and already parsed objects.
+ * custom_fields is decoded when it arrives as a JSON string.
+ *
+ * @param body - Raw or parsed request body
+ * @param contentType - Content-Type header of the request
+ * @returns Normalized callback data
+ * @throws VerstkaPayloadError if the body cannot be parsed
+ */
+export function parseCallbackBody(body: unknown, contentType: string = ''): CallbackData {
+  let data: Record<string, unknown>;
+
+  if (Buffer.isBuffer(body)) {
+    body = body.toString('utf8');
+  }
+
+  if (typeof body === 'string') {
+    const trimmed = body.trim();
+    const isJson = contentType.includes('json') || trimmed.startsWith('{');
+
+    if (isJson) {
+      try {
+        data = JSON.parse(trimmed);
+      } catch {
+        throw new VerstkaPayloadError('INVALID_PAYLOAD', 'Callback body is not valid JSON');
+      }
+    } else {
+      data = Object.fromEntries(new URLSearchParams(trimmed));
+    }
+  } else if (body && typeof body === 'object') {
+    data = { ...(body as Record<string, unknown>) };
+  } else {
+    throw new VerstkaPayloadError('INVALID_PAYLOAD', 'Callback body is empty');
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new VerstkaPayloadError('INVALID_PAYLOAD', 'Callback body must be an object');
+  }
+
+  if (typeof data.custom_fields === 'string') {
+    const customFields = data.custom_fields.trim();
+
+    if (!customFields) {
+      delete data.custom_fields;
+    } else {
+      try {
+        data.custom_fields = JSON.parse(customFields);
+      } catch {
+        throw new VerstkaPayloadError('INVALID_PAYLOAD', 'custom_fields is not valid JSON');
+      }
+    }
+  }
+
+  return data as unknown as CallbackData;
+}
+
+/**
+ * Read request body from a stream with a size limit
+ * Once the limit is exceeded, the rest of a request stream is drained and discarded,
+ * so the error response can still be sent on the connection.
+ *
+ * @param stream - Incoming request stream
+ * @param limit - Maximum body size in bytes
+ * @returns Body as a string
+ * @throws VerstkaPayloadError if the body exceeds the limit
+ */
+export async function readRequestBody(
+  stream: AsyncIterable<Buffer | string>,
+  limit: number = DEFAULT_BODY_LIMIT
+): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  // Destroying the request on break would also close the socket the response goes to
+  const iterable = stream instanceof Readable ? stream.iterator({ destroyOnReturn: false }) : stream;
+
+  for await (const chunk of iterable) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk as Buffer;
+    size += buffer.length;
+
+    if (size > limit) break;
+
+    chunks.push(buffer);
+  }
+
+  if (size > limit) {
+    // Resume only after the loop released the stream, it stays paused otherwise
+    if (stream instanceof Readable) {
+      stream.resume();
+    }
+
+    throw new VerstkaPayloadError(
+      'PAYLOAD_TOO_LARGE',
+      `Callback body exceeds limit of ${limit} bytes`
+    );
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Run save for parsed callback body and build Verstka response
+ *
+ * @param saver - Content manager or SDK instance
+ * @param options - Handler options
+ * @param getBody - Function returning raw or parsed body
+ * @param contentType - Content-Type header of the request
+ * @param request - Request URL, checked for a callback token, and host
+ * @returns HTTP status and Verstka response body
+ */
+async function processCallback<M extends SaveMode>(
+  saver: CallbackSaver,
+  options: CallbackHandlerOptions<M>,
+  getBody: () => Promise<unknown>,
+  contentType: string,
+  request: { url: string | undefined; host: string | undefined }
+): Promise<{ status: number; body: CallbackResponse }> {
+  try {
+    const body = await getBody();
+    const limit = options.bodyLimit ?? DEFAULT_BODY_LIMIT;
+
+    if (typeof body === 'string' && Buffer.byteLength(body) > limit) {
+      throw new VerstkaPayloadError(
+        'PAYLOAD_TOO_LARGE',
+        `Callback body exceeds limit of ${limit} bytes`
+      );
+    }
+
+    const callbackData = parseCallbackBody(body, contentType);
+    const callbackUrl = typeof options.callbackUrl === 'function'
+      ? options.callbackUrl()
+      : options.callbackUrl;
+    const callbackToken = getCallbackToken(request.url);
+    const saveOptions = {
+      ...(callbackUrl ? { callbackUrl } : {}),
+      ...(callbackToken ? { callbackToken } : {}),
+      ...(request.host ? { host: request.host } : {}),
+    };
+
+    if (options.async) {
+      if (!saver.enqueueSave) {
+        throw new VerstkaConfigurationError('enqueueSave', 'Saver does not support async callbacks');
+      }
+
+      await saver.enqueueSave(callbackData, saveOptions);
+    } else {
+      await saver.save(callbackData, options.saveHandler, {
+        ...saveOptions,
+        ...(options.mode ? { mode: options.mode } : {}),
+      });
+    }
+
+    return {
+      status: 200,
+      body: { rc: 1, rm: options.successMessage || 'Article saved successfully.' },
+    };
+  } catch (error) {
+    const mapError = options.mapError || defaultCallbackErrorMapper;
+    const { status, rm } = mapError(error);
+    const logger = saver.getLogger?.();
+
+    if (status >= 500) {
+      logger?.error('Callback request failed:', error);
+    } else {
+      logger?.warn('Callback request rejected:', error instanceof Error ? error.message : error);
+    }
+
+    return { status, body: { rc: 0, rm } };
+  }
+}
+
+/**
+ * Get a single header value
+ */
+function getHeader(value: string | string[] | undefined): string {
+  return Array.isArray(value) ? value[0] || '' : value || '';
+}
+
+/**
+ * Create callback handler for plain node:http servers
+ * Also works as Express route handler, using req.body when a body parser already ran
+ *
+ * @param saver - Content manager or SDK instance
+ * @param options - Handler options
+ * @returns Request handler
+ */
+export function createNodeCallbackHandler<M extends SaveMode = 'disk'>(
+  saver: CallbackSaver,
+  options: CallbackHandlerOptions<M>
+): NodeCallbackHandler {
+  return async (req, res) => {
+    const limit = options.bodyLimit ?? DEFAULT_BODY_LIMIT;
+    const result = await processCallback(
+      saver,
+      options,
+      async () => req.body !== undefined && req.body !== null && !isEmptyObject(req.body)
+        ? req.body
+        : readRequestBody(req, limit),
+      getHeader(req.headers['content-type']),
+      { url: req.url, host: getHeader(req.headers.host) || undefined }
+    );
+
+    res.statusCode = result.status;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify(result.body));
+  };
+}
+
+/**
+ * Create callback handler for Express
+ *
+ * @param saver - Content manager or SDK instance
+ * @param options - Handler options
+ * @returns Express route handler
+ */
+export function createExpressCallbackHandler<M extends SaveMode = 'disk'>(
+  saver: CallbackSaver,
+  options: CallbackHandlerOptions<M>
+): NodeCallbackHandler {
+  return createNodeCallbackHandler(saver, options);
+}
+
+/**
+ * Create callback handler for Fastify
+ * Urlencoded bodies require @fastify/formbody or a string content type parser
+ *
+ * @param saver - Content manager or SDK instance
+ * @param options - Handler options
+ * @returns Fastify route handler
+ */
+export function createFastifyCallbackHandler<M extends SaveMode = 'disk'>(
+  saver: CallbackSaver,
+  options: CallbackHandlerOptions<M>
+): (request: FastifyLikeRequest, reply: FastifyLikeReply) => Promise<void> {
+  return async (request, reply) => {
+    const result = await processCallback(
+      saver,
+      options,
+      async () => request.body,
+      getHeader(request.headers['content-type']),
+      { url: request.raw.url, host: request.hostname || getHeader(request.headers.host) || undefined }
+    );
+
+    reply
+      .code(result.status)
+      .header('Content-Type', 'application/json; charset=utf-8')
+      .send(result.body);
+  };
+}
+
+/**
+ * Create callback middleware for Koa
+ * Uses ctx.request.body when a body parser already ran, otherwise reads the raw request
+ *
+ * @param saver - Content manager or SDK instance
+ * @param options - Handler options
+ * @returns Koa middleware
+ */
+export function createKoaCallbackHandler<M extends SaveMode = 'disk'>(
+  saver: CallbackSaver,
+  options: CallbackHandlerOptions<M>
+): (ctx: KoaLikeContext) => Promise<void> {
+  return async ctx => {
+    const limit = options.bodyLimit ?? DEFAULT_BODY_LIMIT;
+    const parsedBody = ctx.request.body;
+    const result = await processCallback(
+      saver,
+      options,
+      async () => parsedBody !== undefined && parsedBody !== null && !isEmptyObject(parsedBody)
+        ? parsedBody
+        : readRequestBody(ctx.req, limit),
+      getHeader(ctx.req.headers['content-type']),
+      { url: ctx.req.url, host: ctx.host || getHeader(ctx.req.headers.host) || undefined }
+    );
+
+    ctx.status = result.status;
+    ctx.set('Content-Type', 'application/json; charset=utf-8');
+    ctx.body = result.body;
+  };
+}
+
+/**
+ * Check whether a value is an empty plain object (left by body parsers that skipped the request)
+ */
+function isEmptyObject(value: unknown): boolean {
+  return typeof value === 'object'
+    && value !== null
+    && !Buffer.isBuffer(value)
+    && Object.keys(value).length === 0;
+}
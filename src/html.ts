@@ -0,0 +1,373 @@
+/**
+ * HTML asset URL rewriting for saved articles
+ */
+
+import type { FileMap, RewriteHtmlResult } from './types.js';
+
+/**
+ * Attributes holding a single asset URL
+ */
+const URL_ATTRIBUTES = new Set(['src', 'poster', 'data-src']);
+
+/**
+ * Attributes holding a srcset candidate list
+ */
+const SRCSET_ATTRIBUTES = new Set(['srcset', 'data-srcset']);
+
+/**
+ * Elements whose content is raw text and must not be scanned for tags
+ */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+/**
+ * Path prefix used by Verstka for article images
+ */
+const VMS_IMAGES_PREFIX = 'vms_images/';
+
+const CSS_URL_PATTERN = /url\(\s*(['"]?)(.*?)\1\s*\)/gi;
+
+interface Edit {
+  start: number;
+  end: number;
+  value: string;
+}
+
+/**
+ * Rewrite asset references in HTML to their final URLs
+ * Handles src, srcset, poster, <source>, <link href>, inline style url()
+ * and url() inside <style> blocks.
+ *
+ * @param html - Article HTML from Verstka
+ * @param urlMap - Map of file names to their final URLs
+ * @returns Rewritten HTML with missing and unreferenced files
+ */
+export function rewriteHtmlAssetUrls(html: string, urlMap: FileMap): RewriteHtmlResult {
+  const resolver = new ReferenceResolver(urlMap);
+  const edits: Edit[] = [];
+  let index = 0;
+
+  while (index < html.length) {
+    const tagStart = html.indexOf('<', index);
+    if (tagStart === -1) break;
+
+    if (html.startsWith('<!--', tagStart)) {
+      const commentEnd = html.indexOf('-->', tagStart + 4);
+      index = commentEnd === -1 ? html.length : commentEnd + 3;
+      continue;
+    }
+
+    const nextChar = html[tagStart + 1] || '';
+    if (!/[a-zA-Z]/.test(nextChar)) {
+      const tagEnd = html.indexOf('>', tagStart + 1);
+      index = tagEnd === -1 ? html.length : tagEnd + 1;
+      continue;
+    }
+
+    const tag = parseTag(html, tagStart);
+    index = tag.end;
+
+    for (const attribute of tag.attributes) {
+      const newValue = rewriteAttribute(tag.name, attribute.name, attribute.value, resolver);
+
+      if (newValue !== null && newValue !== attribute.value) {
+        edits.push({
+          start: attribute.start,
+          end: attribute.end,
+          value: quoteAttribute(newValue, attribute.quote),
+        });
+      }
+    }
+
+    if (RAW_TEXT_ELEMENTS.has(tag.name) && !tag.selfClosing) {
+      const closeMatch = new RegExp(`</${tag.name}[\\s>/]`, 'i').exec(html.slice(index));
+      const contentEnd = closeMatch ? index + closeMatch.index : html.length;
+
+      if (tag.name === 'style') {
+        const content = html.slice(index, contentEnd);
+        const newContent = rewriteCssUrls(content, resolver);
+
+        if (newContent !== content) {
+          edits.push({ start: index, end: contentEnd, value: newContent });
+        }
+      }
+
+      index = contentEnd;
+    }
+  }
+
+  let result = html;
+  for (const edit of edits.reverse()) {
+    result = result.slice(0, edit.start) + edit.value + result.slice(edit.end);
+  }
+
+  return {
+    html: result,
+    missingReferences: [...resolver.missing],
+    unreferencedFiles: Object.keys(urlMap).filter(fileName => !resolver.referenced.has(fileName)),
+  };
+}
+
+/**
+ * Resolves asset references to downloaded files and tracks usage
+ */
+class ReferenceResolver {
+  readonly missing = new Set<string>();
+  readonly referenced = new Set<string>();
+  private urlMap: FileMap;
+  private lowerCaseNames = new Map<string, string>();
+
+  constructor(urlMap: FileMap) {
+    this.urlMap = urlMap;
+    Object.keys(urlMap).forEach(fileName => {
+      this.lowerCaseNames.set(fileName.toLowerCase(), fileName);
+    });
+  }
+
+  /**
+   * Get final URL for a reference
+   * @returns New URL, or null when the reference is not a local asset or has no file
+   */
+  resolve(reference: string): string | null {
+    const trimmed = reference.trim();
+
+    if (!trimmed || /^(#|data:|blob:|mailto:|tel:|javascript:|about:)/i.test(trimmed)) {
+      return null;
+    }
+
+    let pathPart = trimmed.split(/[?#]/)[0] || '';
+
+    if (/^([a-z][a-z0-9+.-]*:)?\/\//i.test(pathPart)) {
+      /**
+       * Absolute URLs are only local assets when they point at Verstka images
+       */
+      const vmsIndex = pathPart.indexOf(`/${VMS_IMAGES_PREFIX}`);
+      if (vmsIndex === -1) return null;
+      pathPart = pathPart.slice(vmsIndex);
+    }
+
+    try {
+      pathPart = decodeURIComponent(pathPart);
+    } catch {
+      // Keep the raw path if it is not valid percent-encoding
+    }
+
+    const relativePath = pathPart.replace(/^(\.\/|\/)+/, '');
+    const candidates = [
+      relativePath,
+      relativePath.startsWith(VMS_IMAGES_PREFIX)
+        ? relativePath.slice(VMS_IMAGES_PREFIX.length)
+        : relativePath,
+      relativePath.split('/').pop() || '',
+    ];
+
+    for (const candidate of candidates) {
+      const fileName = this.findFile(candidate);
+      if (fileName) {
+        this.referenced.add(fileName);
+        return this.urlMap[fileName] || null;
+      }
+    }
+
+    /**
+     * Only references that look like files are reported as missing
+     */
+    if (/\.[a-z0-9]{1,8}$/i.test(relativePath)) {
+      this.missing.add(trimmed);
+    }
+
+    return null;
+  }
+
+  /**
+   * Find downloaded file by exact or case-insensitive name
+   */
+  private findFile(candidate: string): string | undefined {
+    if (!candidate) return undefined;
+    if (Object.prototype.hasOwnProperty.call(this.urlMap, candidate)) return candidate;
+    return this.lowerCaseNames.get(candidate.toLowerCase());
+  }
+}
+
+/**
+ * Rewrite a single attribute value
+ * @returns New decoded value or null if the attribute is not an asset reference
+ */
+function rewriteAttribute(
+  tagName: string,
+  name: string,
+  value: string,
+  resolver: ReferenceResolver
+): string | null {
+  if (URL_ATTRIBUTES.has(name) || (name === 'href' && tagName === 'link')) {
+    return resolver.resolve(value);
+  }
+
+  if (SRCSET_ATTRIBUTES.has(name)) {
+    return rewriteSrcset(value, resolver);
+  }
+
+  if (name === 'style') {
+    return rewriteCssUrls(value, resolver);
+  }
+
+  return null;
+}
+
+/**
+ * Rewrite URLs in a srcset candidate list, keeping descriptors
+ */
+function rewriteSrcset(value: string, resolver: ReferenceResolver): string {
+  const candidates: string[] = [];
+  let changed = false;
+  let index = 0;
+
+  while (index < value.length) {
+    while (index < value.length && /[\s,]/.test(value[index] || '')) index++;
+    if (index >= value.length) break;
+
+    let urlEnd = index;
+    while (urlEnd < value.length && !/\s/.test(value[urlEnd] || '')) urlEnd++;
+
+    let url = value.slice(index, urlEnd);
+    let descriptor = '';
+    index = urlEnd;
+
+    if (url.endsWith(',')) {
+      url = url.replace(/,+$/, '');
+    } else {
+      const descriptorEnd = value.indexOf(',', index);
+      const end = descriptorEnd === -1 ? value.length : descriptorEnd;
+      descriptor = value.slice(index, end).trim();
+      index = end + 1;
+    }
+
+    const newUrl = resolver.resolve(url);
+    changed = changed || newUrl !== null;
+    candidates.push(descriptor ? `${newUrl ?? url} ${descriptor}` : newUrl ?? url);
+  }
+
+  return changed ? candidates.join(', ') : value;
+}
+
+/**
+ * Rewrite url() references in CSS
+ */
+function rewriteCssUrls(css: string, resolver: ReferenceResolver): string {
+  return css.replace(CSS_URL_PATTERN, (match, quote: string, url: string) => {
+    const newUrl = resolver.resolve(url);
+    return newUrl === null ? match : `url(${quote}${newUrl}${quote})`;
+  });
+}
+
+interface ParsedAttribute {
+  name: string;
+  value: string;
+  quote: '"' | "'" | '';
+  /** Start of the raw value including quotes */
+  start: number;
+  /** End of the raw value including quotes */
+  end: number;
+}
+
+interface ParsedTag {
+  name: string;
+  attributes: ParsedAttribute[];
+  selfClosing: boolean;
+  end: number;
+}
+
+/**
+ * Parse an opening tag starting at position
+ */
+function parseTag(html: string, position: number): ParsedTag {
+  const nameMatch = /^<([a-zA-Z][^\s/>]*)/.exec(html.slice(position, position + 128));
+  const name = (nameMatch?.[1] || '').toLowerCase();
+  const attributes: ParsedAttribute[] = [];
+  let index = position + 1 + name.length;
+  let selfClosing = false;
+
+  while (index < html.length) {
+    const char = html[index] || '';
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === '>') {
+      return { name, attributes, selfClosing, end: index + 1 };
+    }
+
+    if (char === '/') {
+      selfClosing = html[index + 1] === '>';
+      index++;
+      continue;
+    }
+
+    const attributeStart = index;
+    while (index < html.length && !/[\s=>/]/.test(html[index] || '')) index++;
+    const attributeName = html.slice(attributeStart, index).toLowerCase();
+
+    while (index < html.length && /\s/.test(html[index] || '')) index++;
+    if (html[index] !== '=') continue;
+    index++;
+    while (index < html.length && /\s/.test(html[index] || '')) index++;
+
+    const quote = html[index] === '"' || html[index] === "'" ? html[index] as '"' | "'" : '';
+    const valueStart = index;
+    let valueEnd: number;
+
+    if (quote) {
+      const closeIndex = html.indexOf(quote, index + 1);
+      valueEnd = closeIndex === -1 ? html.length : closeIndex + 1;
+    } else {
+      while (index < html.length && !/[\s>]/.test(html[index] || '')) index++;
+      valueEnd = index;
+    }
+    index = valueEnd;
+
+    const rawValue = quote
+      ? html.slice(valueStart + 1, Math.max(valueStart + 1, valueEnd - 1))
+      : html.slice(valueStart, valueEnd);
+
+    attributes.push({
+      name: attributeName,
+      value: decodeEntities(rawValue),
+      quote,
+      start: valueStart,
+      end: valueEnd,
+    });
+  }
+
+  return { name, attributes, selfClosing, end: html.length };
+}
+
+/**
+ * Decode common HTML entities in attribute values
+ */
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|quot|apos|lt|gt);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower === 'amp') return '&';
+    if (lower === 'quot') return '"';
+    if (lower === 'apos') return "'";
+    if (lower === 'lt') return '<';
+    if (lower === 'gt') return '>';
+    const code = lower.startsWith('#x') ? parseInt(lower.slice(2), 16) : parseInt(lower.slice(1), 10);
+    if (!Number.isFinite(code)) return match;
+    // Out-of-range code points decode to the replacement character, as in browsers
+    return code <= 0x10ffff ? String.fromCodePoint(code) : '\uFFFD';
+  });
+}
+
+/**
+ * Encode attribute value for its quote style
+ */
+function quoteAttribute(value: string, quote: '"' | "'" | ''): string {
+  const finalQuote = quote || '"';
+  const escaped = value
+    .replace(/&/g, '&amp;')
+    .replace(finalQuote === '"' ? /"/g : /'/g, finalQuote === '"' ? '&quot;' : '&#39;');
+
+  return `${finalQuote}${escaped}${finalQuote}`;
+}
@@ -0,0 +1,234 @@
+/**
+ * Idempotency and locking stores for callback processing
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import type { CallbackData, SaveStore, SaveRecord, SaveOutcome } from './types.js';
+import { getSafeFileName, readJsonFile, writeFileAtomic } from './fsStore.js';
+
+/**
+ * Number of fingerprints kept per material to detect repeated callbacks
+ */
+const RECENT_FINGERPRINTS = 20;
+
+/**
+ * Options for file-based save store
+ */
+export interface FileSaveStoreOptions {
+  /** Directory for record and lock files, shared by all processes */
+  dir: string;
+  /** Interval in milliseconds between lock attempts (default: 50) */
+  pollInterval?: number;
+}
+
+/**
+ * Remove the 'M' prefix of mobile material IDs
+ *
+ * @param materialId - Material ID as sent by Verstka
+ * @returns Material ID without 'M' prefix
+ */
+export function stripMobilePrefix(materialId: string): string {
+  return materialId.startsWith('M') ? materialId.substring(1) : materialId;
+}
+
+/**
+ * Build store key for a material version
+ *
+ * @param materialId - Material ID without 'M' prefix
+ * @param isMobile - Whether this is a mobile version
+ * @returns Key in format <materialId>:<desktop|mobile>
+ */
+export function buildSaveKey(materialId: string, isMobile: boolean): string {
+  return `${materialId}:${isMobile ? 'mobile' : 'desktop'}`;
+}
+
+/**
+ * Fingerprint of a callback, equal for repeated deliveries of the same save
+ *
+ * @param callbackData - Data received from Verstka callback
+ * @returns SHA-256 hex digest of session_id, download_url and html_body
+ */
+export function getSaveFingerprint(callbackData: CallbackData): string {
+  return createHash('sha256')
+    .update(JSON.stringify([
+      callbackData.session_id || '',
+      callbackData.download_url,
+      callbackData.html_body || '',
+    ]))
+    .digest('hex');
+}
+
+/**
+ * Decide what to do with an incoming save given the last applied one
+ *
+ * @param previous - Last applied save record
+ * @param fingerprint - Fingerprint of the incoming save
+ * @param version - Version of the incoming save
+ * @param rejectStale - Whether saves older than the last applied one are skipped
+ * @returns Outcome of the incoming save
+ */
+export function getSaveOutcome(
+  previous: SaveRecord | undefined,
+  fingerprint: string,
+  version: number,
+  rejectStale: boolean
+): SaveOutcome {
+  if (!previous) {
+    return 'saved';
+  }
+
+  if (previous.fingerprint === fingerprint || previous.recentFingerprints.includes(fingerprint)) {
+    return 'duplicate';
+  }
+
+  if (rejectStale && version < previous.version) {
+    return 'stale';
+  }
+
+  return 'saved';
+}
+
+/**
+ * Build record for an applied save
+ *
+ * @param previous - Last applied save record
+ * @param record - Fields of the applied save
+ * @returns New record with updated fingerprint history
+ */
+export function createSaveRecord(
+  previous: SaveRecord | undefined,
+  record: Omit<SaveRecord, 'recentFingerprints'>
+): SaveRecord {
+  const recentFingerprints = previous
+    ? [previous.fingerprint, ...previous.recentFingerprints]
+      .filter(fingerprint => fingerprint !== record.fingerprint)
+      .slice(0, RECENT_FINGERPRINTS)
+    : [];
+
+  return { ...record, recentFingerprints };
+}
+
+/**
+ * In-memory save store for single-process deployments
+ * Locks are granted in arrival order per key.
+ */
+export class MemorySaveStore implements SaveStore {
+  private records = new Map<string, SaveRecord>();
+  private locks = new Map<string, Promise<void>>();
+
+  /**
+   * Wait for the lock on key, a held lock expires after ttl
+   */
+  async acquire(key: string, ttl: number): Promise<() => Promise<void>> {
+    const previous = this.locks.get(key) || Promise.resolve();
+    let release: () => void = () => undefined;
+    const current = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const tail = previous.then(() => current);
+
+    this.locks.set(key, tail);
+    await previous;
+
+    const timeoutId = setTimeout(release, ttl);
+
+    return async () => {
+      clearTimeout(timeoutId);
+      release();
+
+      if (this.locks.get(key) === tail) {
+        this.locks.delete(key);
+      }
+    };
+  }
+
+  /**
+   * Get last applied save for key
+   */
+  async get(key: string): Promise<SaveRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  /**
+   * Store last applied save for key
+   */
+  async set(key: string, record: SaveRecord): Promise<void> {
+    this.records.set(key, record);
+  }
+}
+
+/**
+ * File-based save store for several processes sharing a directory
+ * Locks are lock files created exclusively, a lock older than ttl is
+ * considered abandoned and removed.
+ */
+export class FileSaveStore implements SaveStore {
+  private dir: string;
+  private pollInterval: number;
+
+  constructor(options: FileSaveStoreOptions) {
+    this.dir = path.resolve(options.dir);
+    this.pollInterval = options.pollInterval ?? 50;
+  }
+
+  /**
+   * Wait for the lock file of key, breaking locks older than ttl
+   */
+  async acquire(key: string, ttl: number): Promise<() => Promise<void>> {
+    await fs.mkdir(this.dir, { recursive: true });
+
+    const lockPath = this.getPath(key, '.lock');
+    const token = randomUUID();
+
+    for (;;) {
+      try {
+        await fs.writeFile(lockPath, JSON.stringify({ token, pid: process.pid }), { flag: 'wx' });
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const stats = await fs.stat(lockPath).catch(() => null);
+      if (stats && Date.now() - stats.mtimeMs > ttl) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.pollInterval));
+    }
+
+    return async () => {
+      const content = await fs.readFile(lockPath, 'utf8').catch(() => '');
+
+      // Do not remove a lock taken over after ours expired
+      if (content.includes(token)) {
+        await fs.rm(lockPath, { force: true });
+      }
+    };
+  }
+
+  /**
+   * Read last applied save for key
+   */
+  async get(key: string): Promise<SaveRecord | undefined> {
+    return readJsonFile<SaveRecord>(this.getPath(key, '.json'));
+  }
+
+  /**
+   * Write last applied save for key atomically
+   */
+  async set(key: string, record: SaveRecord): Promise<void> {
+    await writeFileAtomic(this.getPath(key, '.json'), JSON.stringify(record));
+  }
+
+  /**
+   * Map key to a safe file name inside dir
+   */
+  private getPath(key: string, extension: string): string {
+    return path.join(this.dir, `${getSafeFileName(key)}${extension}`);
+  }
+}
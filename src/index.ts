@@ -2,29 +2,234 @@
 export { VerstkaClient } from './client.js';
 export { VerstkaAuth } from './auth.js';
 export { VerstkaContentManager } from './content.js';
-export { VerstkaLogger, createLogger } from './logger.js';
+export {
+  VerstkaLogger,
+  createLogger,
+  createSilentLogger,
+  withLogLevel,
+  fromPino,
+  fromWinston,
+  toLogFields,
+} from './logger.js';
+export {
+  VerstkaError,
+  VerstkaApiError,
+  VerstkaNetworkError,
+  VerstkaTimeoutError,
+  VerstkaSignatureError,
+  VerstkaPayloadError,
+  VerstkaConfigurationError,
+  VerstkaNotFoundError,
+  VerstkaValidationError,
+  VerstkaDownloadError,
+} from './errors.js';
+export {
+  LocalStorageAdapter,
+  S3StorageAdapter,
+  publishFiles,
+  buildStorageKey,
+} from './storage.js';
+export {
+  DEFAULT_ALLOWED_EXTENSIONS,
+  DEFAULT_ALLOWED_MIME_TYPES,
+  normalizeFileName,
+  getContentType,
+  getMimeType,
+  sniffMimeType,
+} from './files.js';
+export { rewriteHtmlAssetUrls } from './html.js';
+export { uploadLackingPictures } from './pictures.js';
+export {
+  MemorySaveStore,
+  FileSaveStore,
+  buildSaveKey,
+  getSaveFingerprint,
+} from './idempotency.js';
+export { FileSaveJobQueue, SaveWorker, createSaveJob } from './queue.js';
+export { TenantRegistry } from './tenants.js';
+export {
+  MemoryEditorSessionRegistry,
+  FileEditorSessionRegistry,
+  CALLBACK_TOKEN_PARAM,
+  DEFAULT_CALLBACK_TOKEN_TTL,
+  appendCallbackToken,
+  getCallbackToken,
+  isEditorSessionActive,
+} from './sessions.js';
+export { FileAssetCache, compareManifests } from './cache.js';
+export { MemoryRevisionStore, FileRevisionStore, diffRevisions } from './revisions.js';
+export {
+  MaterialVersionManager,
+  MemoryMaterialVersionStore,
+  FileMaterialVersionStore,
+  renderMaterialEmbed,
+} from './versions.js';
+export { VerstkaEventEmitter } from './events.js';
+export {
+  METRICS,
+  noopTracer,
+  noopMetrics,
+  fromOpenTelemetryTracer,
+  fromOpenTelemetryMeter,
+} from './telemetry.js';
+export { NodeHttpTransport, createFetchTransport, withInterceptors } from './transport.js';
+export {
+  downloadFiles,
+  downloadFilesToMemory,
+  openFileStreams,
+  retryFailed,
+  createTempDirectory,
+  removeTempDirectory,
+  sweepTempDirectories,
+} from './download.js';
+export {
+  createNodeCallbackHandler,
+  createExpressCallbackHandler,
+  createFastifyCallbackHandler,
+  createKoaCallbackHandler,
+  defaultCallbackErrorMapper,
+  parseCallbackBody,
+  readRequestBody,
+} from './handlers.js';
 
 // Export types
 export type {
   VerstkaConfig,
   VerstkaApiResponse,
-  VerstkaError,
   VerstkaSdkOptions,
   GetEditorUrlParams,
   OpenEditorResponse,
+  LackingPictureSource,
+  LackingPictureResolver,
+  LackingPicturesOptions,
+  LackingPictureResult,
+  LackingPictureFailureReason,
   SaveCallbackParams,
   CustomFields,
   CallbackData,
   FileMap,
+  BufferMap,
+  StreamMap,
+  SaveMode,
+  SaveFileMap,
   FailedFile,
+  FailedFileReason,
   SaveHandler,
+  SaveOptions,
+  SaveResult,
+  SaveOutcome,
+  SkippedSaveParams,
+  SaveRecord,
+  SaveStore,
+  SaveJob,
+  SaveJobStatus,
+  SaveJobQueue,
+  StorageAdapter,
+  AssetCache,
+  AssetCacheEntry,
+  AssetManifest,
+  FileChanges,
+  Revision,
+  RevisionDiff,
+  RevisionStore,
+  RollbackParams,
+  RollbackResult,
+  EditorSession,
+  EditorSessionFilter,
+  EditorSessionRegistry,
+  CallbackTokenClaims,
+  RewriteHtmlResult,
+  CallbackResponse,
+  CallbackErrorMapping,
+  CallbackHandlerOptions,
   DownloadOptions,
   DownloadResult,
+  MemoryDownloadResult,
+  StreamDownloadResult,
+  DownloadedFileStats,
+  TempSweepOptions,
+  FileProgress,
+  SaveProgress,
+  SaveProgressPhase,
+  VerstkaEventContext,
+  VerstkaEventMap,
 } from './types.js';
 
+export type { VerstkaEventListener } from './events.js';
+export type {
+  TelemetryAttributes,
+  TelemetrySpan,
+  VerstkaTracer,
+  VerstkaMetrics,
+  OtelLikeSpan,
+  OtelLikeTracer,
+  OtelLikeApi,
+  OtelLikeMeter,
+} from './telemetry.js';
+export type {
+  HttpRequest,
+  HttpTransport,
+  HttpRequestInterceptor,
+  HttpResponseInterceptor,
+  HttpInterceptors,
+  NodeHttpTransportOptions,
+} from './transport.js';
+
+export type { ApiRequestOptions } from './client.js';
+
+export type {
+  SignatureErrorCode,
+  PayloadErrorCode,
+  NotFoundErrorCode,
+  ValidationErrorCode,
+} from './errors.js';
+
 export type {
+  LocalStorageOptions,
+  S3StorageOptions,
+  PublishResult,
+} from './storage.js';
+
+export type { FileSaveStoreOptions } from './idempotency.js';
+
+export type { FileSaveJobQueueOptions, SaveWorkerOptions } from './queue.js';
+
+export type {
+  TenantConfig,
+  TenantRegistryOptions,
+  TenantResolveParams,
+  TenantSaveOptions,
+} from './tenants.js';
+
+export type { FileEditorSessionRegistryOptions } from './sessions.js';
+
+export type { FileAssetCacheOptions } from './cache.js';
+
+export type { FileRevisionStoreOptions, MemoryRevisionStoreOptions } from './revisions.js';
+
+export type {
+  MaterialVersion,
+  MaterialVersions,
+  MaterialVersionStore,
+  FileMaterialVersionStoreOptions,
+  MaterialEmbedOptions,
+} from './versions.js';
+
+export type {
+  CallbackSaver,
+  FastifyLikeRequest,
+  FastifyLikeReply,
+  KoaLikeContext,
+  NodeCallbackHandler,
+} from './handlers.js';
+
+export type {
+  Logger,
   LogLevel,
+  LogFields,
   LoggerConfig,
+  PinoLikeLogger,
+  WinstonLikeLogger,
 } from './logger.js';
 
 // Import types for function usage
@@ -42,9 +247,33 @@ export function createVerstkaClient(options: VerstkaSdkOptions): VerstkaClient {
 export function createVerstkaSDK(options: VerstkaSdkOptions) {
   const client = new VerstkaClient(options);
   const contentManager = new VerstkaContentManager(client);
+  const events = client.getEvents();
+
+  // Clean up temp directories left by previous runs
+  if (options.tempDirTtl !== undefined) {
+    void contentManager.sweepTempDirectories();
+  }
   
   return {
     save: contentManager.save.bind(contentManager),
+    openEditor: contentManager.openEditor.bind(contentManager),
     getEditorUrl: contentManager.getEditorUrl.bind(contentManager),
+    enqueueSave: contentManager.enqueueSave.bind(contentManager),
+    getSaveJob: contentManager.getSaveJob.bind(contentManager),
+    createSaveWorker: contentManager.createSaveWorker.bind(contentManager),
+    listRevisions: contentManager.listRevisions.bind(contentManager),
+    getRevision: contentManager.getRevision.bind(contentManager),
+    diffRevisions: contentManager.diffRevisions.bind(contentManager),
+    rollback: contentManager.rollback.bind(contentManager),
+    listEditorSessions: contentManager.listEditorSessions.bind(contentManager),
+    getEditorSession: contentManager.getEditorSession.bind(contentManager),
+    revokeEditorSession: contentManager.revokeEditorSession.bind(contentManager),
+    revokeEditorSessions: contentManager.revokeEditorSessions.bind(contentManager),
+    events,
+    on: events.on.bind(events),
+    once: events.once.bind(events),
+    off: events.off.bind(events),
+    sweepTempDirectories: contentManager.sweepTempDirectories.bind(contentManager),
+    getLogger: contentManager.getLogger.bind(contentManager),
   };
 } 
\ No newline at end of file
@@ -4,82 +4,298 @@
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+/**
+ * Fields bound to log records, e.g. material_id and session_id
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger used by the SDK
+ * Extra arguments are appended to the message by the console logger and
+ * merged into the record by structured adapters.
+ */
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+  /** Create logger adding fields to every record */
+  child(fields: LogFields): Logger;
+}
+
 /**
  * Logger configuration
  */
 export interface LoggerConfig {
-  /** Enable debug logging */
+  /** Enable debug logging (same as level: 'debug') */
   debug: boolean;
   /** Optional prefix for all log messages */
   prefix?: string;
+  /** Minimum level to print (default: 'debug' in debug mode, otherwise 'info') */
+  level?: LogLevel | 'silent';
+  /** Fields printed with every message */
+  fields?: LogFields;
+}
+
+/**
+ * Minimal pino logger shape
+ */
+export interface PinoLikeLogger {
+  debug(fields: LogFields, message: string): void;
+  info(fields: LogFields, message: string): void;
+  warn(fields: LogFields, message: string): void;
+  error(fields: LogFields, message: string): void;
+  child(fields: LogFields): PinoLikeLogger;
 }
 
 /**
- * Logger class for Verstka SDK
+ * Minimal winston logger shape
  */
-export class VerstkaLogger {
+export interface WinstonLikeLogger {
+  debug(message: string, fields: LogFields): unknown;
+  info(message: string, fields: LogFields): unknown;
+  warn(message: string, fields: LogFields): unknown;
+  error(message: string, fields: LogFields): unknown;
+  child(fields: LogFields): WinstonLikeLogger;
+}
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+/**
+ * Console logger, default adapter of the SDK
+ */
+export class VerstkaLogger implements Logger {
   private config: LoggerConfig;
+  private minLevel: number;
 
   constructor(config: LoggerConfig) {
     this.config = config;
+    this.minLevel = LEVELS[config.level || (config.debug ? 'debug' : 'info')];
   }
 
   /**
-   * Log debug message (only in debug mode)
+   * Log debug message (only in debug mode or with level 'debug')
    */
-  debug(...args: any[]): void {
-    if (this.config.debug) {
-      this.log('debug', ...args);
-    }
+  debug(message: string, ...args: unknown[]): void {
+    this.log('debug', message, ...args);
+  }
+
+  /**
+   * Log info message
+   */
+  info(message: string, ...args: unknown[]): void {
+    this.log('info', message, ...args);
   }
 
   /**
-   * Log info message (always shown)
+   * Log warning message
    */
-  info(...args: any[]): void {
-    this.log('info', ...args);
+  warn(message: string, ...args: unknown[]): void {
+    this.log('warn', message, ...args);
   }
 
   /**
-   * Log warning message (always shown)
+   * Log error message
    */
-  warn(...args: any[]): void {
-    this.log('warn', ...args);
+  error(message: string, ...args: unknown[]): void {
+    this.log('error', message, ...args);
   }
 
   /**
-   * Log error message (always shown)
+   * Create logger printing fields with every message
    */
-  error(...args: any[]): void {
-    this.log('error', ...args);
+  child(fields: LogFields): VerstkaLogger {
+    return new VerstkaLogger({
+      ...this.config,
+      fields: { ...this.config.fields, ...fields },
+    });
   }
 
   /**
    * Internal logging method
    */
-  private log(level: LogLevel, ...args: any[]): void {
+  private log(level: LogLevel, message: string, ...args: unknown[]): void {
+    if (LEVELS[level] < this.minLevel) {
+      return;
+    }
+
     const prefix = this.config.prefix ? `[${this.config.prefix}]` : '';
-    
+    const fields = this.config.fields && Object.keys(this.config.fields).length > 0
+      ? [this.config.fields]
+      : [];
+
     switch (level) {
       case 'debug':
-        console.log(prefix, '🔍', ...args);
+        console.log(prefix, '🔍', message, ...args, ...fields);
         break;
       case 'info':
-        console.log(prefix, '📝', ...args);
+        console.log(prefix, '📝', message, ...args, ...fields);
         break;
       case 'warn':
-        console.warn(prefix, '⚠️ ', ...args);
+        console.warn(prefix, '⚠️ ', message, ...args, ...fields);
         break;
       case 'error':
-        console.error(prefix, '❌', ...args);
+        console.error(prefix, '❌', message, ...args, ...fields);
         break;
     }
   }
 }
 
+/**
+ * Logger that drops every record
+ */
+class SilentLogger implements Logger {
+  /** No-op */
+  debug(): void {}
+  /** No-op */
+  info(): void {}
+  /** No-op */
+  warn(): void {}
+  /** No-op */
+  error(): void {}
+  /** Returns itself */
+  child(): Logger {
+    return this;
+  }
+}
+
+/**
+ * Logger dropping records below a minimum level before passing them on
+ */
+class LevelFilterLogger implements Logger {
+  private logger: Logger;
+  private level: LogLevel | 'silent';
+  private minLevel: number;
+
+  constructor(logger: Logger, level: LogLevel | 'silent') {
+    this.logger = logger;
+    this.level = level;
+    this.minLevel = LEVELS[level];
+  }
+
+  /**
+   * Pass debug record on if level allows
+   */
+  debug(message: string, ...args: unknown[]): void {
+    if (LEVELS.debug >= this.minLevel) this.logger.debug(message, ...args);
+  }
+
+  /**
+   * Pass info record on if level allows
+   */
+  info(message: string, ...args: unknown[]): void {
+    if (LEVELS.info >= this.minLevel) this.logger.info(message, ...args);
+  }
+
+  /**
+   * Pass warning record on if level allows
+   */
+  warn(message: string, ...args: unknown[]): void {
+    if (LEVELS.warn >= this.minLevel) this.logger.warn(message, ...args);
+  }
+
+  /**
+   * Pass error record on if level allows
+   */
+  error(message: string, ...args: unknown[]): void {
+    if (LEVELS.error >= this.minLevel) this.logger.error(message, ...args);
+  }
+
+  /**
+   * Create filtered child logger
+   */
+  child(fields: LogFields): Logger {
+    return new LevelFilterLogger(this.logger.child(fields), this.level);
+  }
+}
+
+/**
+ * Turn extra log arguments into structured fields
+ * Plain objects are merged, errors go to err, other values to args.
+ *
+ * @param args - Extra arguments passed after the message
+ * @returns Fields for structured loggers
+ */
+export function toLogFields(args: unknown[]): LogFields {
+  const fields: LogFields = {};
+  const values: unknown[] = [];
+
+  for (const arg of args) {
+    if (arg instanceof Error) {
+      fields.err = arg;
+    } else if (arg && typeof arg === 'object' && !Array.isArray(arg)) {
+      Object.assign(fields, arg);
+    } else {
+      values.push(arg);
+    }
+  }
+
+  if (values.length > 0) {
+    fields.args = values.length === 1 ? values[0] : values;
+  }
+
+  return fields;
+}
+
 /**
  * Create a logger instance
  */
 export function createLogger(config: LoggerConfig): VerstkaLogger {
   return new VerstkaLogger(config);
-} 
\ No newline at end of file
+}
+
+/**
+ * Create logger that drops every record
+ */
+export function createSilentLogger(): Logger {
+  return new SilentLogger();
+}
+
+/**
+ * Apply minimum level to any logger
+ *
+ * @param logger - Logger to wrap
+ * @param level - Minimum level to pass on
+ * @returns Filtering logger
+ */
+export function withLogLevel(logger: Logger, level: LogLevel | 'silent'): Logger {
+  return level === 'silent' ? new SilentLogger() : new LevelFilterLogger(logger, level);
+}
+
+/**
+ * Adapt a pino logger
+ *
+ * @param pino - pino logger or child
+ * @returns Logger passing extra arguments as record fields
+ */
+export function fromPino(pino: PinoLikeLogger): Logger {
+  return {
+    debug: (message, ...args) => pino.debug(toLogFields(args), message),
+    info: (message, ...args) => pino.info(toLogFields(args), message),
+    warn: (message, ...args) => pino.warn(toLogFields(args), message),
+    error: (message, ...args) => pino.error(toLogFields(args), message),
+    child: fields => fromPino(pino.child(fields)),
+  };
+}
+
+/**
+ * Adapt a winston logger
+ *
+ * @param winston - winston logger or child
+ * @returns Logger passing extra arguments as record metadata
+ */
+export function fromWinston(winston: WinstonLikeLogger): Logger {
+  return {
+    debug: (message, ...args) => { winston.debug(message, toLogFields(args)); },
+    info: (message, ...args) => { winston.info(message, toLogFields(args)); },
+    warn: (message, ...args) => { winston.warn(message, toLogFields(args)); },
+    error: (message, ...args) => { winston.error(message, toLogFields(args)); },
+    child: fields => fromWinston(winston.child(fields)),
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * Upload of pictures the editor could not fetch from hostName
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import pLimit from 'p-limit';
+import type {
+  LackingPictureResolver,
+  LackingPictureResult,
+  LackingPictureSource,
+  DownloadOptions,
+} from './types.js';
+import type { Logger } from './logger.js';
+import { VerstkaApiError } from './errors.js';
+import { withRetry, parseRetryAfter } from './download.js';
+import { getContentType } from './files.js';
+import { getDefaultTransport } from './transport.js';
+import type { HttpTransport } from './transport.js';
+
+/**
+ * Resolve lacking pictures and upload them to the session upload URL
+ *
+ * @param uploadUrl - Upload URL from the /open response
+ * @param pictureNames - Lacking pictures from the /open response
+ * @param resolver - Resolver returning content for each picture
+ * @param options - Concurrency, timeout and retry settings
+ * @param logger - Optional logger instance
+ * @returns Upload result for each picture, in the order of pictureNames
+ */
+export async function uploadLackingPictures(
+  uploadUrl: string,
+  pictureNames: string[],
+  resolver: LackingPictureResolver,
+  options: DownloadOptions = {},
+  logger?: Logger
+): Promise<LackingPictureResult[]> {
+  const limit = pLimit(options.concurrency || 5);
+
+  const results = await Promise.all(pictureNames.map(pictureName =>
+    limit(() => uploadPicture(uploadUrl, pictureName, resolver, options, logger))
+  ));
+
+  const uploaded = results.filter(result => result.uploaded).length;
+  logger?.info(`Lacking pictures upload completed: ${uploaded}/${pictureNames.length} uploaded`);
+
+  return results;
+}
+
+/**
+ * Resolve and upload a single picture
+ */
+async function uploadPicture(
+  uploadUrl: string,
+  pictureName: string,
+  resolver: LackingPictureResolver,
+  options: DownloadOptions,
+  logger?: Logger
+): Promise<LackingPictureResult> {
+  let content: Buffer | null;
+
+  try {
+    const source = await resolver(pictureName);
+    content = source === null || source === undefined ? null : await readSource(source);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger?.error(`[${pictureName}] Failed to resolve lacking picture:`, errorMessage);
+    return {
+      pictureName,
+      uploaded: false,
+      error: `Resolve failed: ${errorMessage}`,
+      reason: 'RESOLVE_FAILED',
+    };
+  }
+
+  if (!content) {
+    logger?.warn(`[${pictureName}] Lacking picture was not resolved, skipping`);
+    return {
+      pictureName,
+      uploaded: false,
+      error: 'Picture was not resolved',
+      reason: 'NOT_RESOLVED',
+    };
+  }
+
+  const attempts = { count: 0 };
+
+  try {
+    await withRetry(
+      signal => sendPicture(
+        options.transport || getDefaultTransport(),
+        uploadUrl,
+        pictureName,
+        content,
+        signal
+      ),
+      options,
+      uploadUrl,
+      logger,
+      pictureName,
+      attempts
+    );
+
+    logger?.debug(`[${pictureName}] Uploaded lacking picture (${content.length} bytes)`);
+
+    return {
+      pictureName,
+      uploaded: true,
+      bytes: content.length,
+      attempts: attempts.count,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger?.error(`[${pictureName}] Failed to upload lacking picture:`, errorMessage);
+    return {
+      pictureName,
+      uploaded: false,
+      attempts: attempts.count,
+      error: `Upload failed: ${errorMessage}`,
+      reason: 'UPLOAD_FAILED',
+    };
+  }
+}
+
+/**
+ * Read picture source into memory so that retries can resend it
+ */
+async function readSource(source: LackingPictureSource): Promise<Buffer> {
+  if (Buffer.isBuffer(source)) {
+    return source;
+  }
+
+  if (typeof source === 'string') {
+    return fs.readFile(source);
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of source) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * POST picture as multipart/form-data, field name is the picture name
+ */
+async function sendPicture(
+  transport: HttpTransport,
+  uploadUrl: string,
+  pictureName: string,
+  content: Buffer,
+  signal: AbortSignal
+): Promise<void> {
+  const formData = new FormData();
+  formData.append(
+    pictureName,
+    new Blob([content], { type: getContentType(pictureName) }),
+    path.posix.basename(pictureName)
+  );
+
+  const response = await transport.request({
+    url: uploadUrl,
+    method: 'POST',
+    body: formData,
+    signal,
+  });
+  const text = await response.text().catch(() => '');
+
+  if (!response.ok) {
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+    throw new VerstkaApiError(`HTTP ${response.status}: ${response.statusText}`, {
+      endpoint: uploadUrl,
+      status: response.status,
+      ...(retryAfter !== undefined ? { retryAfter } : {}),
+    });
+  }
+
+  /**
+   * Upload endpoint answers with the usual rc/rm body, anything else counts as success
+   */
+  let body: { rc?: unknown; rm?: unknown } | undefined;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    body = undefined;
+  }
+
+  if (body && typeof body === 'object' && body.rc !== undefined && Number(body.rc) !== 1) {
+    const rm = typeof body.rm === 'string' ? body.rm : undefined;
+    throw new VerstkaApiError(`Verstka API error on picture upload: ${rm || 'Unknown error'}`, {
+      endpoint: uploadUrl,
+      rc: Number(body.rc),
+      ...(rm !== undefined ? { rm } : {}),
+    });
+  }
+}
@@ -0,0 +1,485 @@
+/**
+ * Durable save queue and background worker for asynchronous callbacks
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import type {
+  SaveJob,
+  SaveJobQueue,
+  SaveJobStatus,
+  SaveHandler,
+  SaveOutcome,
+} from './types.js';
+import type { CallbackSaver } from './handlers.js';
+import type { Logger } from './logger.js';
+import { VerstkaPayloadError, VerstkaSignatureError } from './errors.js';
+import { readDir, readJsonFile, writeFileAtomic } from './fsStore.js';
+
+const STATUSES: SaveJobStatus[] = ['pending', 'running', 'completed', 'dead'];
+
+/**
+ * Options for file-based save queue
+ */
+export interface FileSaveJobQueueOptions {
+  /** Directory for job files */
+  dir: string;
+}
+
+/**
+ * Options for SaveWorker
+ */
+export interface SaveWorkerOptions {
+  /** Function to handle downloaded files */
+  saveHandler?: SaveHandler;
+  /** Number of jobs processed at the same time (default: 1) */
+  concurrency?: number;
+  /** Number of retries before a job is moved to the dead-letter list (default: 5) */
+  retries?: number;
+  /** Base retry delay in milliseconds, doubled on each retry (default: 5000) */
+  retryDelay?: number;
+  /** Maximum retry delay in milliseconds (default: 300000) */
+  maxRetryDelay?: number;
+  /** Interval in milliseconds between queue polls when idle (default: 1000) */
+  pollInterval?: number;
+  /** Time after which a running job is considered abandoned (default: 30 minutes) */
+  runningTimeout?: number;
+  /** Age after which completed jobs are removed (default: 7 days) */
+  completedTtl?: number;
+  /** Optional logger instance */
+  logger?: Logger;
+}
+
+/**
+ * Create job for a verified callback
+ *
+ * @param job - Callback data, callback URL and token, and version
+ * @returns Pending job due now
+ */
+export function createSaveJob(
+  job: Pick<SaveJob, 'callbackData' | 'version'> & { callbackUrl?: string; callbackToken?: string }
+): SaveJob {
+  const now = Date.now();
+
+  return {
+    id: `${now.toString(36)}-${randomUUID()}`,
+    ...(job.callbackData.session_id ? { sessionId: job.callbackData.session_id } : {}),
+    materialId: job.callbackData.material_id,
+    status: 'pending',
+    callbackData: job.callbackData,
+    ...(job.callbackUrl ? { callbackUrl: job.callbackUrl } : {}),
+    ...(job.callbackToken ? { callbackToken: job.callbackToken } : {}),
+    version: job.version,
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+    nextRunAt: now,
+  };
+}
+
+/**
+ * Save queue keeping one JSON file per job in a directory per status
+ * Jobs are claimed by renaming their file, so several workers may share the directory.
+ */
+export class FileSaveJobQueue implements SaveJobQueue {
+  private dir: string;
+
+  constructor(options: FileSaveJobQueueOptions) {
+    this.dir = path.resolve(options.dir);
+  }
+
+  /**
+   * Write new pending job and index it by session ID
+   */
+  async add(job: SaveJob): Promise<void> {
+    await this.writeJob(job);
+
+    if (job.sessionId) {
+      await writeFileAtomic(this.getSessionPath(job.sessionId), JSON.stringify({ id: job.id }));
+    }
+  }
+
+  /**
+   * Move the earliest due pending job to running
+   */
+  async claim(now: number): Promise<SaveJob | undefined> {
+    const due = (await this.readJobs('pending'))
+      .filter(job => job.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt - b.nextRunAt);
+
+    for (const job of due) {
+      try {
+        await fs.mkdir(this.getStatusDir('running'), { recursive: true });
+        await fs.rename(this.getJobPath('pending', job.id), this.getJobPath('running', job.id));
+      } catch (error) {
+        // Claimed by another worker
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+        throw error;
+      }
+
+      const claimed: SaveJob = { ...job, status: 'running', updatedAt: Date.now() };
+      await this.writeJob(claimed);
+      return claimed;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Write job under its status and remove it from other statuses
+   */
+  async update(job: SaveJob): Promise<void> {
+    await this.writeJob(job);
+
+    await Promise.all(STATUSES
+      .filter(status => status !== job.status)
+      .map(status => fs.rm(this.getJobPath(status, job.id), { force: true })));
+  }
+
+  /**
+   * Find job by ID in any status
+   */
+  async get(id: string): Promise<SaveJob | undefined> {
+    for (const status of STATUSES) {
+      // Undefined if the job is not there, e.g. moved by another worker
+      const job = await readJsonFile<SaveJob>(this.getJobPath(status, id));
+      if (job) return job;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find latest job of a session through the session index
+   */
+  async getBySessionId(sessionId: string): Promise<SaveJob | undefined> {
+    const index = await readJsonFile<{ id?: unknown }>(this.getSessionPath(sessionId));
+    return typeof index?.id === 'string' ? this.get(index.id) : undefined;
+  }
+
+  /**
+   * List jobs ordered by creation time
+   */
+  async list(status?: SaveJobStatus): Promise<SaveJob[]> {
+    const jobs = await Promise.all((status ? [status] : STATUSES).map(item => this.readJobs(item)));
+    return jobs.flat().sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Return running jobs not updated for maxAge to pending
+   */
+  async recover(maxAge: number): Promise<number> {
+    const now = Date.now();
+    const abandoned = (await this.readJobs('running')).filter(job => now - job.updatedAt > maxAge);
+
+    for (const job of abandoned) {
+      await this.update({ ...job, status: 'pending', updatedAt: now, nextRunAt: now });
+    }
+
+    return abandoned.length;
+  }
+
+  /**
+   * Remove completed jobs older than maxAge with their session index
+   */
+  async prune(maxAge: number): Promise<number> {
+    const now = Date.now();
+    const expired = (await this.readJobs('completed')).filter(job => now - job.updatedAt > maxAge);
+
+    for (const job of expired) {
+      await fs.rm(this.getJobPath('completed', job.id), { force: true });
+
+      if (job.sessionId) {
+        const indexed = await this.getBySessionId(job.sessionId).catch(() => undefined);
+        if (!indexed) {
+          await fs.rm(this.getSessionPath(job.sessionId), { force: true });
+        }
+      }
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Read all jobs of a status
+   */
+  private async readJobs(status: SaveJobStatus): Promise<SaveJob[]> {
+    const jobs = await Promise.all((await readDir(this.getStatusDir(status)))
+      .filter(name => name.endsWith('.json'))
+      .map(name => readJsonFile<SaveJob>(path.join(this.getStatusDir(status), name))));
+
+    return jobs.filter((job): job is SaveJob => job !== undefined);
+  }
+
+  /**
+   * Write job file under its status
+   */
+  private async writeJob(job: SaveJob): Promise<void> {
+    await writeFileAtomic(this.getJobPath(job.status, job.id), JSON.stringify(job));
+  }
+
+  /**
+   * Directory of jobs with a status
+   */
+  private getStatusDir(status: SaveJobStatus): string {
+    return path.join(this.dir, status);
+  }
+
+  /**
+   * Job file path for a status
+   */
+  private getJobPath(status: SaveJobStatus, id: string): string {
+    return path.join(this.getStatusDir(status), `${id.replace(/[^\w-]/g, '_')}.json`);
+  }
+
+  /**
+   * Session index file path
+   */
+  private getSessionPath(sessionId: string): string {
+    const hash = createHash('sha256').update(sessionId).digest('hex');
+    return path.join(this.dir, 'sessions', `${hash}.json`);
+  }
+}
+
+/**
+ * Background worker running queued saves with retries and a dead-letter list
+ */
+export class SaveWorker {
+  private saver: CallbackSaver;
+  private queue: SaveJobQueue;
+  private options: SaveWorkerOptions & {
+    concurrency: number;
+    retries: number;
+    retryDelay: number;
+    maxRetryDelay: number;
+    pollInterval: number;
+    runningTimeout: number;
+    completedTtl: number;
+  };
+  private running = new Set<Promise<void>>();
+  /** Poll in progress, only one runs at a time */
+  private polling: Promise<void> | undefined;
+  /** A poll was requested while another was in progress */
+  private pollAgain = false;
+  private timeoutId: NodeJS.Timeout | undefined;
+  private started = false;
+  private lastPrune = 0;
+
+  constructor(saver: CallbackSaver, queue: SaveJobQueue, options: SaveWorkerOptions = {}) {
+    this.saver = saver;
+    this.queue = queue;
+    this.options = {
+      concurrency: 1,
+      retries: 5,
+      retryDelay: 5000,
+      maxRetryDelay: 300000,
+      pollInterval: 1000,
+      runningTimeout: 30 * 60 * 1000,
+      completedTtl: 7 * 24 * 60 * 60 * 1000,
+      ...options,
+    };
+  }
+
+  /**
+   * Recover abandoned jobs and start polling the queue
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    const recovered = await this.queue.recover?.(this.options.runningTimeout) || 0;
+    if (recovered > 0) {
+      this.options.logger?.warn(`Recovered ${recovered} abandoned save jobs`);
+    }
+
+    this.options.logger?.info('Save worker started');
+    this.schedule(0);
+  }
+
+  /**
+   * Stop claiming jobs and wait for running ones to finish
+   *
+   * @param timeout - Maximum time to wait in milliseconds, unfinished jobs are recovered on next start
+   */
+  async stop(timeout?: number): Promise<void> {
+    this.started = false;
+    clearTimeout(this.timeoutId);
+
+    // A poll waiting in claim may still add a job to running
+    const pending = (async () => {
+      await this.polling;
+      await Promise.all(this.running);
+    })();
+
+    if (timeout === undefined) {
+      await pending;
+    } else {
+      let timeoutId: NodeJS.Timeout | undefined;
+      await Promise.race([
+        pending,
+        new Promise(resolve => {
+          timeoutId = setTimeout(resolve, timeout);
+        }),
+      ]);
+      clearTimeout(timeoutId);
+    }
+
+    this.options.logger?.info('Save worker stopped');
+  }
+
+  /**
+   * Get status of the latest save of a session
+   */
+  async getStatus(sessionId: string): Promise<SaveJob | undefined> {
+    return this.queue.getBySessionId(sessionId);
+  }
+
+  /**
+   * List jobs that failed permanently
+   */
+  async getDeadLetters(): Promise<SaveJob[]> {
+    return this.queue.list('dead');
+  }
+
+  /**
+   * Move a dead job back to pending for another round of retries
+   *
+   * @param id - Job ID
+   * @returns Requeued job, or undefined if there is no dead job with this ID
+   */
+  async requeue(id: string): Promise<SaveJob | undefined> {
+    const job = await this.queue.get(id);
+    if (!job || job.status !== 'dead') return undefined;
+
+    const now = Date.now();
+    const requeued: SaveJob = { ...job, status: 'pending', attempts: 0, updatedAt: now, nextRunAt: now };
+    await this.queue.update(requeued);
+    this.schedule(0);
+
+    return requeued;
+  }
+
+  /**
+   * Schedule next poll
+   */
+  private schedule(delay: number): void {
+    if (!this.started) return;
+
+    clearTimeout(this.timeoutId);
+    this.timeoutId = setTimeout(() => {
+      if (this.polling) {
+        this.pollAgain = true;
+        return;
+      }
+
+      this.polling = this.poll().catch(error => {
+        this.options.logger?.error('Save queue poll failed:', error);
+        this.schedule(this.options.pollInterval);
+      }).finally(() => {
+        this.polling = undefined;
+
+        if (this.pollAgain) {
+          this.pollAgain = false;
+          this.schedule(0);
+        }
+      });
+    }, delay);
+  }
+
+  /**
+   * Claim due jobs up to concurrency
+   */
+  private async poll(): Promise<void> {
+    if (Date.now() - this.lastPrune > 60 * 60 * 1000) {
+      this.lastPrune = Date.now();
+      await this.queue.prune?.(this.options.completedTtl);
+    }
+
+    while (this.started && this.running.size < this.options.concurrency) {
+      const job = await this.queue.claim(Date.now());
+      if (!job) break;
+
+      // stop() ran while claim was pending, hand the job back for the next start
+      if (!this.started) {
+        await this.queue.update({ ...job, status: 'pending', updatedAt: Date.now() });
+        break;
+      }
+
+      const task = this.runJob(job).catch(error => {
+        this.options.logger?.error(`Save job ${job.id} could not be updated:`, error);
+      }).finally(() => {
+        this.running.delete(task);
+        this.schedule(0);
+      });
+      this.running.add(task);
+    }
+
+    this.schedule(this.options.pollInterval);
+  }
+
+  /**
+   * Run save for a claimed job and record the result
+   */
+  private async runJob(job: SaveJob): Promise<void> {
+    const logger = this.options.logger?.child({
+      job_id: job.id,
+      material_id: job.materialId,
+      ...(job.sessionId ? { session_id: job.sessionId } : {}),
+    });
+    const attempts = job.attempts + 1;
+
+    logger?.info(`Running save job ${job.id} for material ${job.materialId} (attempt ${attempts})`);
+
+    try {
+      const result = await this.saver.save(job.callbackData, this.options.saveHandler, {
+        version: job.version,
+        receivedAt: job.createdAt,
+        ...(job.callbackUrl ? { callbackUrl: job.callbackUrl } : {}),
+        ...(job.callbackToken ? { callbackToken: job.callbackToken } : {}),
+      });
+      const outcome = (result as { outcome?: SaveOutcome } | undefined)?.outcome;
+
+      await this.queue.update({
+        ...job,
+        status: 'completed',
+        attempts,
+        updatedAt: Date.now(),
+        ...(outcome ? { outcome } : {}),
+      });
+      logger?.info(`Save job ${job.id} completed`);
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const isPermanent = error instanceof VerstkaSignatureError || error instanceof VerstkaPayloadError;
+      const now = Date.now();
+
+      if (isPermanent || attempts > this.options.retries) {
+        await this.queue.update({
+          ...job,
+          status: 'dead',
+          attempts,
+          updatedAt: now,
+          lastError: errorMessage,
+        });
+        logger?.error(`Save job ${job.id} moved to dead-letter list after ${attempts} attempts:`, errorMessage);
+        return;
+      }
+
+      const delay = Math.min(
+        this.options.maxRetryDelay,
+        this.options.retryDelay * 2 ** (attempts - 1)
+      );
+
+      await this.queue.update({
+        ...job,
+        status: 'pending',
+        attempts,
+        updatedAt: now,
+        nextRunAt: now + delay,
+        lastError: errorMessage,
+      });
+      logger?.warn(`Save job ${job.id} failed (${errorMessage}), retrying in ${delay}ms`);
+    }
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Revision history of applied saves
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createReadStream, createWriteStream } from 'fs';
+import { createHash, randomUUID } from 'crypto';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { AssetManifest, Revision, RevisionDiff, RevisionStore } from './types.js';
+import { compareManifests } from './cache.js';
+import { VerstkaValidationError } from './errors.js';
+import { getSafeFileName, isSafeId, readDir, readJsonFile, writeFileAtomic } from './fsStore.js';
+
+/**
+ * Options for file-based revision store
+ */
+export interface FileRevisionStoreOptions {
+  /** Directory for revisions and their files */
+  dir: string;
+  /** Number of revisions kept per material version, older ones are removed (default: unlimited) */
+  maxRevisions?: number;
+}
+
+/**
+ * Options for in-memory revision store
+ */
+export interface MemoryRevisionStoreOptions {
+  /** Number of revisions kept per material version (default: unlimited) */
+  maxRevisions?: number;
+}
+
+/**
+ * Compare two revisions of a material version
+ *
+ * @param from - Older revision
+ * @param to - Newer revision
+ * @returns Whether the HTML changed and added, changed, unchanged and removed files
+ */
+export function diffRevisions(from: Revision, to: Revision): RevisionDiff {
+  return {
+    htmlChanged: from.htmlBody !== to.htmlBody,
+    ...compareManifests(from.files, to.files, Object.keys(to.files)),
+  };
+}
+
+/**
+ * In-memory revision store for single-process deployments and tests
+ */
+export class MemoryRevisionStore implements RevisionStore {
+  private revisions = new Map<string, Revision[]>();
+  private contents = new Map<string, Buffer>();
+  private maxRevisions: number | undefined;
+
+  constructor(options: MemoryRevisionStoreOptions = {}) {
+    this.maxRevisions = options.maxRevisions;
+  }
+
+  /**
+   * Store revision with its files
+   */
+  async add(
+    key: string,
+    revision: Omit<Revision, 'files'>,
+    files: Record<string, string | Buffer>
+  ): Promise<Revision> {
+    const manifest: AssetManifest = {};
+
+    for (const [fileName, source] of Object.entries(files)) {
+      const content = Buffer.isBuffer(source) ? source : await fs.readFile(source);
+      const hash = createHash('sha256').update(content).digest('hex');
+
+      this.contents.set(hash, content);
+      manifest[fileName] = { hash, bytes: content.length };
+    }
+
+    const stored: Revision = { ...revision, files: manifest };
+    const revisions = [stored, ...(this.revisions.get(key) || [])];
+
+    this.revisions.set(key, this.maxRevisions ? revisions.slice(0, this.maxRevisions) : revisions);
+    this.removeUnreferenced();
+
+    return stored;
+  }
+
+  /**
+   * Get revisions for key, newest first
+   */
+  async list(key: string): Promise<Revision[]> {
+    return [...(this.revisions.get(key) || [])];
+  }
+
+  /**
+   * Get revision by ID
+   */
+  async get(key: string, revisionId: string): Promise<Revision | undefined> {
+    return this.revisions.get(key)?.find(revision => revision.id === revisionId);
+  }
+
+  /**
+   * Read asset file of a revision
+   */
+  async readFile(revision: Revision, fileName: string): Promise<Buffer | undefined> {
+    const entry = revision.files[fileName];
+    return entry ? this.contents.get(entry.hash) : undefined;
+  }
+
+  /**
+   * Drop contents of removed revisions
+   */
+  private removeUnreferenced(): void {
+    const referenced = new Set<string>();
+    this.revisions.forEach(revisions => revisions.forEach(revision => {
+      Object.values(revision.files).forEach(entry => referenced.add(entry.hash));
+    }));
+
+    for (const hash of this.contents.keys()) {
+      if (!referenced.has(hash)) this.contents.delete(hash);
+    }
+  }
+}
+
+/**
+ * Revision store keeping revisions under <dir>/revisions/<key> and their files
+ * under <dir>/blobs/<hash>, so files shared by revisions are stored once
+ */
+export class FileRevisionStore implements RevisionStore {
+  private dir: string;
+  private maxRevisions: number | undefined;
+
+  constructor(options: FileRevisionStoreOptions) {
+    this.dir = path.resolve(options.dir);
+    this.maxRevisions = options.maxRevisions;
+  }
+
+  /**
+   * Store revision with its files
+   */
+  async add(
+    key: string,
+    revision: Omit<Revision, 'files'>,
+    files: Record<string, string | Buffer>
+  ): Promise<Revision> {
+    const manifest: AssetManifest = {};
+
+    for (const [fileName, source] of Object.entries(files)) {
+      manifest[fileName] = await this.putBlob(source);
+    }
+
+    const stored: Revision = { ...revision, files: manifest };
+    await writeFileAtomic(this.getRevisionPath(key, stored.id), JSON.stringify(stored));
+
+    if (this.maxRevisions) {
+      const outdated = (await this.list(key)).slice(this.maxRevisions);
+      await Promise.all(outdated.map(item => fs.rm(this.getRevisionPath(key, item.id), { force: true })));
+    }
+
+    return stored;
+  }
+
+  /**
+   * Read revisions for key, newest first
+   */
+  async list(key: string): Promise<Revision[]> {
+    const keyDir = this.getKeyDir(key);
+    const revisions: Revision[] = [];
+
+    for (const name of await readDir(keyDir)) {
+      if (!name.endsWith('.json')) continue;
+
+      const content = await fs.readFile(path.join(keyDir, name), 'utf8').catch(() => undefined);
+      if (content) revisions.push(JSON.parse(content) as Revision);
+    }
+
+    return revisions.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Read revision by ID
+   */
+  async get(key: string, revisionId: string): Promise<Revision | undefined> {
+    return isSafeId(revisionId) ? readJsonFile<Revision>(this.getRevisionPath(key, revisionId)) : undefined;
+  }
+
+  /**
+   * Read asset file of a revision
+   */
+  async readFile(revision: Revision, fileName: string): Promise<Buffer | undefined> {
+    const entry = revision.files[fileName];
+    if (!entry) return undefined;
+
+    try {
+      return await fs.readFile(this.getBlobPath(entry.hash));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove stored files no revision refers to
+   */
+  async prune(): Promise<number> {
+    const referenced = new Set<string>();
+    const revisionsDir = path.join(this.dir, 'revisions');
+
+    for (const keyDir of await readDir(revisionsDir)) {
+      for (const name of await readDir(path.join(revisionsDir, keyDir))) {
+        if (!name.endsWith('.json')) continue;
+
+        const content = await fs.readFile(path.join(revisionsDir, keyDir, name), 'utf8').catch(() => '');
+        if (!content) continue;
+
+        Object.values((JSON.parse(content) as Revision).files).forEach(entry => referenced.add(entry.hash));
+      }
+    }
+
+    let removed = 0;
+    const blobsDir = path.join(this.dir, 'blobs');
+
+    for (const prefix of await readDir(blobsDir)) {
+      for (const name of await readDir(path.join(blobsDir, prefix))) {
+        if (referenced.has(name)) continue;
+
+        await fs.rm(path.join(blobsDir, prefix, name), { force: true });
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Store content of a file under its hash
+   */
+  private async putBlob(source: string | Buffer): Promise<{ hash: string; bytes: number }> {
+    await fs.mkdir(path.join(this.dir, 'blobs'), { recursive: true });
+
+    const tempPath = path.join(this.dir, 'blobs', `${randomUUID()}.tmp`);
+    const hash = createHash('sha256');
+    let bytes = 0;
+
+    try {
+      if (Buffer.isBuffer(source)) {
+        hash.update(source);
+        bytes = source.length;
+        await fs.writeFile(tempPath, source);
+      } else {
+        await pipeline(
+          createReadStream(source),
+          new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+              hash.update(chunk);
+              bytes += chunk.length;
+              callback(null, chunk);
+            },
+          }),
+          createWriteStream(tempPath)
+        );
+      }
+
+      const digest = hash.digest('hex');
+      const blobPath = this.getBlobPath(digest);
+
+      await fs.mkdir(path.dirname(blobPath), { recursive: true });
+      await fs.rename(tempPath, blobPath);
+
+      return { hash: digest, bytes };
+    } finally {
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+
+  /**
+   * Map hash to a path inside dir, rejecting anything but a SHA-256 hex digest
+   */
+  private getBlobPath(hash: string): string {
+    if (!/^[a-f0-9]{64}$/.test(hash)) {
+      throw new VerstkaValidationError('INVALID_HASH', `Invalid revision file hash: ${hash}`);
+    }
+
+    return path.join(this.dir, 'blobs', hash.substring(0, 2), hash);
+  }
+
+  /**
+   * Map key to a safe directory name inside dir
+   */
+  private getKeyDir(key: string): string {
+    return path.join(this.dir, 'revisions', getSafeFileName(key));
+  }
+
+  /**
+   * Map revision ID to a file inside the key directory
+   */
+  private getRevisionPath(key: string, revisionId: string): string {
+    if (!isSafeId(revisionId)) {
+      throw new VerstkaValidationError('INVALID_ID', `Invalid revision ID: ${revisionId}`);
+    }
+
+    return path.join(this.getKeyDir(key), `${revisionId}.json`);
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Per-session callback URLs and the editor session registry
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { EditorSession, EditorSessionFilter, EditorSessionRegistry } from './types.js';
+import { VerstkaValidationError } from './errors.js';
+import { isSafeId, readDir, readJsonFile, writeFileAtomic } from './fsStore.js';
+
+/**
+ * Query parameter carrying the callback token
+ */
+export const CALLBACK_TOKEN_PARAM = 'verstka_token';
+
+/**
+ * Default lifetime of callback tokens
+ */
+export const DEFAULT_CALLBACK_TOKEN_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Options for file-based editor session registry
+ */
+export interface FileEditorSessionRegistryOptions {
+  /** Directory for session files, shared by all processes */
+  dir: string;
+}
+
+/**
+ * Add callback token to a callback URL
+ *
+ * @param callbackUrl - Callback URL without token
+ * @param token - Callback token
+ * @returns Callback URL with the token in the query
+ */
+export function appendCallbackToken(callbackUrl: string, token: string): string {
+  const url = new URL(callbackUrl);
+  url.searchParams.set(CALLBACK_TOKEN_PARAM, token);
+  return url.toString();
+}
+
+/**
+ * Read callback token from the URL a callback request arrived on
+ *
+ * @param requestUrl - Request URL, absolute or path with query (req.url)
+ * @returns Token, or undefined if the URL has none
+ */
+export function getCallbackToken(requestUrl: string | undefined): string | undefined {
+  if (!requestUrl) {
+    return undefined;
+  }
+
+  try {
+    return new URL(requestUrl, 'http://localhost').searchParams.get(CALLBACK_TOKEN_PARAM) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a session is neither revoked nor expired
+ *
+ * @param session - Editor session
+ * @param now - Time to check at (default: now)
+ */
+export function isEditorSessionActive(session: EditorSession, now: number = Date.now()): boolean {
+  return session.revokedAt === undefined && session.expiresAt > now;
+}
+
+/**
+ * Check whether a session matches a filter
+ *
+ * @param session - Editor session
+ * @param filter - Material, user, version and activity filter
+ * @param now - Time activity is checked at
+ */
+export function matchEditorSession(
+  session: EditorSession,
+  filter: EditorSessionFilter,
+  now: number = Date.now()
+): boolean {
+  const materialId = filter.materialId?.replace(/^M/, '');
+
+  return (materialId === undefined || session.materialId === materialId)
+    && (filter.userId === undefined || session.userId === filter.userId)
+    && (filter.isMobile === undefined || session.isMobile === filter.isMobile)
+    && (filter.includeInactive || isEditorSessionActive(session, now));
+}
+
+/**
+ * In-memory editor session registry for single-process deployments and tests
+ */
+export class MemoryEditorSessionRegistry implements EditorSessionRegistry {
+  private sessions = new Map<string, EditorSession>();
+
+  /**
+   * Store session
+   */
+  async set(session: EditorSession): Promise<void> {
+    this.sessions.set(session.id, session);
+  }
+
+  /**
+   * Get session by ID
+   */
+  async get(id: string): Promise<EditorSession | undefined> {
+    return this.sessions.get(id);
+  }
+
+  /**
+   * List sessions, optionally of a material
+   */
+  async list(materialId?: string): Promise<EditorSession[]> {
+    return [...this.sessions.values()].filter(
+      session => materialId === undefined || session.materialId === materialId
+    );
+  }
+
+  /**
+   * Remove sessions that expired before the given time
+   */
+  async prune(before: number): Promise<number> {
+    let removed = 0;
+
+    for (const [id, session] of this.sessions) {
+      if (session.expiresAt < before) {
+        this.sessions.delete(id);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+}
+
+/**
+ * Editor session registry keeping one JSON file per session
+ */
+export class FileEditorSessionRegistry implements EditorSessionRegistry {
+  private dir: string;
+
+  constructor(options: FileEditorSessionRegistryOptions) {
+    this.dir = path.resolve(options.dir);
+  }
+
+  /**
+   * Write session atomically
+   */
+  async set(session: EditorSession): Promise<void> {
+    await writeFileAtomic(this.getPath(session.id), JSON.stringify(session));
+  }
+
+  /**
+   * Read session by ID
+   */
+  async get(id: string): Promise<EditorSession | undefined> {
+    return isSafeId(id) ? readJsonFile<EditorSession>(this.getPath(id)) : undefined;
+  }
+
+  /**
+   * Read sessions, optionally of a material
+   */
+  async list(materialId?: string): Promise<EditorSession[]> {
+    const sessions: EditorSession[] = [];
+
+    for (const name of await readDir(this.dir)) {
+      if (!name.endsWith('.json')) continue;
+
+      const content = await fs.readFile(path.join(this.dir, name), 'utf8').catch(() => undefined);
+      if (!content) continue;
+
+      const session = JSON.parse(content) as EditorSession;
+      if (materialId === undefined || session.materialId === materialId) sessions.push(session);
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Remove sessions that expired before the given time
+   */
+  async prune(before: number): Promise<number> {
+    let removed = 0;
+
+    for (const session of await this.list()) {
+      if (session.expiresAt < before) {
+        await fs.rm(this.getPath(session.id), { force: true });
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Map session ID to a file inside dir
+   */
+  private getPath(id: string): string {
+    if (!isSafeId(id)) {
+      throw new VerstkaValidationError('INVALID_ID', `Invalid editor session ID: ${id}`);
+    }
+
+    return path.join(this.dir, `${id}.json`);
+  }
+}
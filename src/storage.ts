@@ -0,0 +1,435 @@
+/**
+ * Storage adapters for publishing downloaded files
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createReadStream } from 'fs';
+import type { Readable } from 'stream';
+import { createHash, createHmac } from 'crypto';
+import pLimit from 'p-limit';
+import type { StorageAdapter, FileMap, FailedFile, FileChanges } from './types.js';
+import type { Logger } from './logger.js';
+import { getContentType } from './files.js';
+import { getDefaultTransport } from './transport.js';
+import type { HttpTransport } from './transport.js';
+import { VerstkaApiError, VerstkaValidationError } from './errors.js';
+
+/**
+ * Options for local filesystem storage
+ */
+export interface LocalStorageOptions {
+  /** Directory where files are published */
+  rootDir: string;
+  /** Public URL prefix that serves rootDir (default: '') */
+  publicBaseUrl?: string;
+}
+
+/**
+ * Options for S3-compatible storage
+ */
+export interface S3StorageOptions {
+  /** Bucket name */
+  bucket: string;
+  /** Bucket region (default: us-east-1) */
+  region?: string;
+  /** Custom endpoint for S3-compatible services, e.g. http://localhost:9000 for MinIO */
+  endpoint?: string;
+  /** Access key ID */
+  accessKeyId: string;
+  /** Secret access key */
+  secretAccessKey: string;
+  /** Session token for temporary credentials */
+  sessionToken?: string;
+  /** Use path-style URLs (default: true when endpoint is set) */
+  forcePathStyle?: boolean;
+  /** Public URL prefix for objects (default: object URL) */
+  publicBaseUrl?: string;
+  /** Key prefix for all objects */
+  prefix?: string;
+  /** Canned ACL, e.g. 'public-read' */
+  acl?: string;
+  /** Cache-Control header for uploaded objects */
+  cacheControl?: string;
+  /** Request timeout in milliseconds, restarted while upload bytes are sent (default: 30000) */
+  timeout?: number;
+  /** HTTP transport (default: shared NodeHttpTransport) */
+  transport?: HttpTransport;
+}
+
+/**
+ * Result of publishing files to storage
+ */
+export interface PublishResult {
+  /** Map of file names to their public URLs */
+  urls: FileMap;
+  /** List of files that failed to upload */
+  failedFiles: FailedFile[];
+}
+
+/**
+ * Build storage key for a file of a material version
+ *
+ * @param materialId - Material ID without 'M' prefix
+ * @param isMobile - Whether this is a mobile version
+ * @param fileName - File name
+ * @returns Key in format <materialId>/<desktop|mobile>/<fileName>
+ */
+export function buildStorageKey(materialId: string, isMobile: boolean, fileName: string): string {
+  return [materialId, isMobile ? 'mobile' : 'desktop', fileName].join('/');
+}
+
+/**
+ * Publish downloaded files to storage under <materialId>/<desktop|mobile>/
+ * With changes from the asset cache only added and changed files are uploaded
+ * and removed files are deleted when the adapter supports it.
+ *
+ * @param storage - Storage adapter
+ * @param fileMap - Map of file names to local file paths
+ * @param materialId - Material ID without 'M' prefix
+ * @param isMobile - Whether this is a mobile version
+ * @param concurrency - Maximum number of concurrent uploads
+ * @param logger - Optional logger instance
+ * @param changes - Files compared with the previous save
+ * @returns Public URLs and failed uploads
+ */
+export async function publishFiles(
+  storage: StorageAdapter,
+  fileMap: FileMap,
+  materialId: string,
+  isMobile: boolean,
+  concurrency: number = 10,
+  logger?: Logger,
+  changes?: FileChanges
+): Promise<PublishResult> {
+  const limit = pLimit(concurrency);
+  const entries = Object.entries(fileMap);
+  const urls: FileMap = {};
+  const failedFiles: FailedFile[] = [];
+  const unchanged = new Set(changes?.unchanged);
+
+  await Promise.all(entries.map(([fileName, filePath]) =>
+    limit(async () => {
+      const key = buildStorageKey(materialId, isMobile, fileName);
+
+      if (unchanged.has(fileName)) {
+        urls[fileName] = storage.getPublicUrl(key);
+        return;
+      }
+
+      try {
+        urls[fileName] = await storage.put(key, filePath, {
+          contentType: getContentType(fileName),
+        });
+        logger?.debug(`[${fileName}] Published to: ${urls[fileName]}`);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger?.error(`[${fileName}] Failed to publish:`, errorMessage);
+        failedFiles.push({
+          fileName,
+          error: `Upload failed: ${errorMessage}`,
+          reason: 'UPLOAD_FAILED',
+        });
+      }
+    })
+  ));
+
+  if (changes && storage.delete) {
+    const deleteFile = storage.delete.bind(storage);
+
+    await Promise.all(changes.removed.map(fileName =>
+      limit(async () => {
+        try {
+          await deleteFile(buildStorageKey(materialId, isMobile, fileName));
+          logger?.debug(`[${fileName}] Removed from storage`);
+        } catch (error) {
+          logger?.warn(`[${fileName}] Failed to remove from storage:`, error);
+        }
+      })
+    ));
+  }
+
+  const uploaded = Object.keys(urls).length - unchanged.size;
+  logger?.info(
+    `Publish completed: ${Object.keys(urls).length}/${entries.length} files published` +
+    (changes ? ` (${uploaded} uploaded, ${unchanged.size} unchanged, ${changes.removed.length} removed)` : '')
+  );
+
+  return { urls, failedFiles };
+}
+
+/**
+ * Storage adapter that copies files to a local directory
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  private rootDir: string;
+  private publicBaseUrl: string;
+
+  constructor(options: LocalStorageOptions) {
+    this.rootDir = path.resolve(options.rootDir);
+    this.publicBaseUrl = (options.publicBaseUrl || '').replace(/\/+$/, '');
+  }
+
+  /**
+   * Copy file to rootDir/key
+   */
+  async put(key: string, filePath: string): Promise<string> {
+    const targetPath = this.resolvePath(key);
+
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    await fs.copyFile(filePath, targetPath);
+
+    return this.getPublicUrl(key);
+  }
+
+  /**
+   * Remove file at rootDir/key
+   */
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolvePath(key), { force: true });
+  }
+
+  /**
+   * Get public URL for key
+   */
+  getPublicUrl(key: string): string {
+    return `${this.publicBaseUrl}/${encodeKey(key)}`;
+  }
+
+  /**
+   * Resolve key to a path inside rootDir
+   */
+  private resolvePath(key: string): string {
+    const targetPath = path.resolve(this.rootDir, key);
+
+    if (!targetPath.startsWith(this.rootDir + path.sep)) {
+      throw new VerstkaValidationError('INVALID_STORAGE_KEY', `Storage key escapes root directory: ${key}`);
+    }
+
+    return targetPath;
+  }
+}
+
+/**
+ * Payload hash for streamed uploads, the body is not part of the signature
+ */
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+/**
+ * Storage adapter for Amazon S3 and S3-compatible services (MinIO, R2, etc.)
+ * Requests are signed with AWS Signature Version 4
+ */
+export class S3StorageAdapter implements StorageAdapter {
+  private options: S3StorageOptions & { region: string; timeout: number };
+  private baseUrl: URL;
+  private pathStyle: boolean;
+
+  constructor(options: S3StorageOptions) {
+    this.options = {
+      region: 'us-east-1',
+      timeout: 30000,
+      ...options,
+    };
+    this.pathStyle = options.forcePathStyle ?? Boolean(options.endpoint);
+    this.baseUrl = new URL(
+      options.endpoint || `https://s3.${this.options.region}.amazonaws.com`
+    );
+  }
+
+  /**
+   * Upload file to bucket under key
+   * The file is streamed with an unsigned payload, so it is never held in memory.
+   */
+  async put(key: string, filePath: string, options: { contentType?: string } = {}): Promise<string> {
+    const { size } = await fs.stat(filePath);
+    const headers: Record<string, string> = {
+      'content-type': options.contentType || getContentType(key),
+      'content-length': String(size),
+    };
+
+    if (this.options.acl) {
+      headers['x-amz-acl'] = this.options.acl;
+    }
+    if (this.options.cacheControl) {
+      headers['cache-control'] = this.options.cacheControl;
+    }
+
+    await this.request('PUT', key, createReadStream(filePath), headers, UNSIGNED_PAYLOAD);
+
+    return this.getPublicUrl(key);
+  }
+
+  /**
+   * Delete object under key
+   */
+  async delete(key: string): Promise<void> {
+    await this.request('DELETE', key, undefined, {}, sha256(''));
+  }
+
+  /**
+   * Get public URL for key
+   */
+  getPublicUrl(key: string): string {
+    const fullKey = this.getFullKey(key);
+
+    if (this.options.publicBaseUrl) {
+      return `${this.options.publicBaseUrl.replace(/\/+$/, '')}/${encodeKey(fullKey)}`;
+    }
+
+    return this.getObjectUrl(fullKey).toString();
+  }
+
+  /**
+   * Apply configured prefix to key
+   */
+  private getFullKey(key: string): string {
+    const prefix = (this.options.prefix || '').replace(/^\/+|\/+$/g, '');
+    return prefix ? `${prefix}/${key}` : key;
+  }
+
+  /**
+   * Build object URL (path-style or virtual-hosted-style)
+   */
+  private getObjectUrl(fullKey: string): URL {
+    const url = new URL(this.baseUrl.toString());
+    const basePath = url.pathname.replace(/\/+$/, '');
+
+    if (this.pathStyle) {
+      url.pathname = `${basePath}/${encodeURIComponent(this.options.bucket)}/${encodeKey(fullKey)}`;
+    } else {
+      url.hostname = `${this.options.bucket}.${url.hostname}`;
+      url.pathname = `${basePath}/${encodeKey(fullKey)}`;
+    }
+
+    return url;
+  }
+
+  /**
+   * Send signed request to S3
+   */
+  private async request(
+    method: string,
+    key: string,
+    body: Readable | undefined,
+    extraHeaders: Record<string, string>,
+    payloadHash: string
+  ): Promise<void> {
+    const url = this.getObjectUrl(this.getFullKey(key));
+    const headers = this.sign(method, url, payloadHash, extraHeaders);
+
+    const controller = new AbortController();
+    let timeoutId = setTimeout(() => controller.abort(), this.options.timeout);
+
+    // Large uploads only time out when they stall
+    body?.on('data', () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => controller.abort(), this.options.timeout);
+    });
+
+    try {
+      const transport = this.options.transport || getDefaultTransport();
+      const response = await transport.request({
+        url: url.toString(),
+        method,
+        headers,
+        ...(body ? { body } : {}),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        const code = /<Code>([^<]+)<\/Code>/.exec(text)?.[1];
+        throw new VerstkaApiError(`HTTP ${response.status}: ${code || response.statusText}`, {
+          endpoint: url.toString(),
+          status: response.status,
+        });
+      }
+    } finally {
+      clearTimeout(timeoutId);
+      body?.destroy();
+    }
+  }
+
+  /**
+   * Build AWS Signature Version 4 headers
+   */
+  private sign(
+    method: string,
+    url: URL,
+    payloadHash: string,
+    extraHeaders: Record<string, string>
+  ): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.substring(0, 8);
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+
+    if (this.options.sessionToken) {
+      headers['x-amz-security-token'] = this.options.sessionToken;
+    }
+
+    const headerNames = Object.keys(headers).map(name => name.toLowerCase()).sort();
+    const canonicalHeaders = headerNames
+      .map(name => `${name}:${String(headers[name]).trim()}\n`)
+      .join('');
+    const signedHeaders = headerNames.join(';');
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      canonicalHeaders,
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.options.region}/s3/aws4_request`;
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      sha256(canonicalRequest),
+    ].join('\n');
+
+    const signingKey = [dateStamp, this.options.region, 's3', 'aws4_request'].reduce<Buffer>(
+      (key, part) => hmac(key, part),
+      Buffer.from(`AWS4${this.options.secretAccessKey}`)
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    headers.authorization = `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, `
+      + `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+
+    return headers;
+  }
+}
+
+/**
+ * URI-encode each key segment per RFC 3986
+ */
+function encodeKey(key: string): string {
+  return key
+    .split('/')
+    .map(segment => encodeURIComponent(segment)
+      .replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/');
+}
+
+/**
+ * SHA-256 hex digest
+ */
+function sha256(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * HMAC-SHA256 digest
+ */
+function hmac(key: Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
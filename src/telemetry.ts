@@ -0,0 +1,209 @@
+/**
+ * Optional tracing and metrics hooks
+ * The SDK has no dependency on OpenTelemetry, adapters take the API objects as arguments.
+ */
+
+/**
+ * Span attribute values
+ */
+export type TelemetryAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Span started by a VerstkaTracer
+ */
+export interface TelemetrySpan {
+  setAttributes(attributes: TelemetryAttributes): void;
+  recordException(error: unknown): void;
+  /** Mark span as failed */
+  setError(message: string): void;
+  end(): void;
+}
+
+/**
+ * Tracer used by the SDK
+ */
+export interface VerstkaTracer {
+  /**
+   * Start span, as child of parent when given
+   */
+  startSpan(name: string, attributes?: TelemetryAttributes, parent?: TelemetrySpan): TelemetrySpan;
+}
+
+/**
+ * Metrics sink used by the SDK
+ */
+export interface VerstkaMetrics {
+  /** Add value to a counter */
+  increment(name: string, value?: number, attributes?: TelemetryAttributes): void;
+  /** Record value in a histogram */
+  record(name: string, value: number, attributes?: TelemetryAttributes): void;
+}
+
+/**
+ * Minimal OpenTelemetry span shape
+ */
+export interface OtelLikeSpan {
+  setAttributes(attributes: TelemetryAttributes): unknown;
+  recordException(exception: Error | string): void;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * Minimal OpenTelemetry tracer shape
+ */
+export interface OtelLikeTracer {
+  startSpan(name: string, options?: { attributes?: TelemetryAttributes }, context?: unknown): OtelLikeSpan;
+}
+
+/**
+ * Minimal @opentelemetry/api shape needed to parent spans
+ */
+export interface OtelLikeApi {
+  trace: { setSpan(context: unknown, span: OtelLikeSpan): unknown };
+  context: { active(): unknown };
+}
+
+/**
+ * Minimal OpenTelemetry meter shape
+ */
+export interface OtelLikeMeter {
+  createCounter(name: string, options?: { unit?: string }): {
+    add(value: number, attributes?: TelemetryAttributes): void;
+  };
+  createHistogram(name: string, options?: { unit?: string }): {
+    record(value: number, attributes?: TelemetryAttributes): void;
+  };
+}
+
+/**
+ * Metric names recorded by the SDK
+ */
+export const METRICS = {
+  /** Counter of downloaded bytes */
+  DOWNLOAD_BYTES: 'verstka.download.bytes',
+  /** Counter of downloaded files */
+  DOWNLOAD_FILES: 'verstka.download.files',
+  /** Counter of failed files, by reason */
+  DOWNLOAD_FAILURES: 'verstka.download.failures',
+  /** Counter of download retries */
+  DOWNLOAD_RETRIES: 'verstka.download.retries',
+  /** Histogram of file download durations in milliseconds */
+  DOWNLOAD_DURATION: 'verstka.download.duration',
+  /** Histogram of save durations in milliseconds, by outcome */
+  SAVE_DURATION: 'verstka.save.duration',
+  /** Counter of failed saves */
+  SAVE_FAILURES: 'verstka.save.failures',
+  /** Histogram of /open durations in milliseconds */
+  EDITOR_OPEN_DURATION: 'verstka.editor.open.duration',
+} as const;
+
+const NOOP_SPAN: TelemetrySpan = {
+  setAttributes: () => undefined,
+  recordException: () => undefined,
+  setError: () => undefined,
+  end: () => undefined,
+};
+
+/**
+ * Tracer that records nothing
+ */
+export const noopTracer: VerstkaTracer = {
+  startSpan: () => NOOP_SPAN,
+};
+
+/**
+ * Metrics sink that records nothing
+ */
+export const noopMetrics: VerstkaMetrics = {
+  increment: () => undefined,
+  record: () => undefined,
+};
+
+/**
+ * Span wrapper keeping the OpenTelemetry span for parenting
+ */
+class OtelSpan implements TelemetrySpan {
+  readonly span: OtelLikeSpan;
+
+  constructor(span: OtelLikeSpan) {
+    this.span = span;
+  }
+
+  /**
+   * Set span attributes
+   */
+  setAttributes(attributes: TelemetryAttributes): void {
+    this.span.setAttributes(attributes);
+  }
+
+  /**
+   * Record exception event
+   */
+  recordException(error: unknown): void {
+    this.span.recordException(error instanceof Error ? error : String(error));
+  }
+
+  /**
+   * Set ERROR status (SpanStatusCode.ERROR = 2)
+   */
+  setError(message: string): void {
+    this.span.setStatus({ code: 2, message });
+  }
+
+  /**
+   * End span
+   */
+  end(): void {
+    this.span.end();
+  }
+}
+
+/**
+ * Adapt an OpenTelemetry tracer
+ *
+ * @param tracer - Tracer, e.g. trace.getTracer('verstka')
+ * @param api - The @opentelemetry/api module, used to parent child spans
+ * @returns Tracer for SDK options
+ */
+export function fromOpenTelemetryTracer(tracer: OtelLikeTracer, api: OtelLikeApi): VerstkaTracer {
+  return {
+    startSpan(name, attributes = {}, parent) {
+      const context = parent instanceof OtelSpan
+        ? api.trace.setSpan(api.context.active(), parent.span)
+        : api.context.active();
+
+      return new OtelSpan(tracer.startSpan(name, { attributes }, context));
+    },
+  };
+}
+
+/**
+ * Adapt an OpenTelemetry meter, creating instruments on first use
+ *
+ * @param meter - Meter, e.g. metrics.getMeter('verstka')
+ * @returns Metrics sink for SDK options
+ */
+export function fromOpenTelemetryMeter(meter: OtelLikeMeter): VerstkaMetrics {
+  const counters = new Map<string, ReturnType<OtelLikeMeter['createCounter']>>();
+  const histograms = new Map<string, ReturnType<OtelLikeMeter['createHistogram']>>();
+
+  return {
+    increment(name, value = 1, attributes) {
+      let counter = counters.get(name);
+      if (!counter) {
+        counter = meter.createCounter(name);
+        counters.set(name, counter);
+      }
+      counter.add(value, attributes);
+    },
+    record(name, value, attributes) {
+      let histogram = histograms.get(name);
+      if (!histogram) {
+        histogram = meter.createHistogram(name, { unit: 'ms' });
+        histograms.set(name, histogram);
+      }
+      histogram.record(value, attributes);
+    },
+  };
+}
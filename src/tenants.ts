@@ -0,0 +1,303 @@
+/**
+ * Registry of SDK instances for services hosting several publications
+ */
+
+import pLimit from 'p-limit';
+import type {
+  CallbackData,
+  GetEditorUrlParams,
+  OpenEditorResponse,
+  SaveHandler,
+  SaveJob,
+  SaveMode,
+  SaveOptions,
+  SaveResult,
+  VerstkaSdkOptions,
+} from './types.js';
+import { VerstkaClient } from './client.js';
+import { VerstkaContentManager } from './content.js';
+import { createLogger } from './logger.js';
+import { VerstkaNotFoundError, VerstkaSignatureError } from './errors.js';
+import type { CallbackSaver } from './handlers.js';
+import { appendCallbackToken } from './sessions.js';
+
+/**
+ * Credentials and options of a tenant
+ */
+export interface TenantConfig extends VerstkaSdkOptions {
+  /** Tenant identifier */
+  id: string;
+  /** Host names of the tenant's sites, matched against the host callbacks arrive on */
+  hosts?: string[];
+  /** Maximum number of saves processed at once (default: unlimited) */
+  maxConcurrentSaves?: number;
+}
+
+/**
+ * Options for the tenant registry
+ */
+export interface TenantRegistryOptions {
+  /** Tenants to register */
+  tenants?: TenantConfig[];
+  /** Options shared by all tenants, tenant options win */
+  defaults?: Partial<Omit<TenantConfig, 'id' | 'hosts'>>;
+  /** Custom field carrying the tenant ID from getEditorUrl to the callback (default: 'tenant_id') */
+  tenantField?: string;
+}
+
+/**
+ * Request data used to find the tenant of a callback
+ */
+export interface TenantResolveParams {
+  /** Callback data, checked for the tenant custom field and signature */
+  callbackData?: CallbackData;
+  /** Host the request arrived on */
+  host?: string;
+  /** Callback URL used to try signatures of tenants without callbackUrl */
+  callbackUrl?: string;
+  /** Token of a per-session callback URL, added to callback URLs when trying signatures */
+  callbackToken?: string;
+}
+
+/**
+ * Save options with the tenant ID
+ */
+export type TenantSaveOptions<M extends SaveMode = SaveMode> = SaveOptions<M> & {
+  /** Tenant ID, skips resolution */
+  tenantId?: string;
+};
+
+/**
+ * SDK instance of a registered tenant
+ */
+interface Tenant {
+  client: VerstkaClient;
+  content: VerstkaContentManager;
+  hosts: string[];
+  limit: ReturnType<typeof pLimit> | undefined;
+}
+
+/**
+ * Routes editor sessions and callbacks of several tenants to their own credentials
+ * Works as saver for the callback handlers. Tenants are resolved by the tenant
+ * custom field set by getEditorUrl, by host, or by trying tenant signatures.
+ */
+export class TenantRegistry implements CallbackSaver {
+  private tenants = new Map<string, Tenant>();
+  private defaults: Partial<Omit<TenantConfig, 'id' | 'hosts'>>;
+  private tenantField: string;
+
+  constructor(options: TenantRegistryOptions = {}) {
+    this.defaults = options.defaults || {};
+    this.tenantField = options.tenantField || 'tenant_id';
+    (options.tenants || []).forEach(tenant => this.add(tenant));
+  }
+
+  /**
+   * Register tenant, replacing one with the same ID
+   */
+  add(config: TenantConfig): void {
+    const { id, hosts = [], maxConcurrentSaves, ...sdkOptions } = { ...this.defaults, ...config };
+    const baseLogger = sdkOptions.logger || createLogger({
+      debug: sdkOptions.debug || false,
+      prefix: 'Verstka',
+      ...(sdkOptions.logLevel ? { level: sdkOptions.logLevel } : {}),
+    });
+    const client = new VerstkaClient({ ...sdkOptions, logger: baseLogger.child({ tenant: id }) });
+
+    this.tenants.set(id, {
+      client,
+      content: new VerstkaContentManager(client),
+      hosts: hosts.map(host => host.toLowerCase()),
+      limit: maxConcurrentSaves ? pLimit(maxConcurrentSaves) : undefined,
+    });
+  }
+
+  /**
+   * Remove tenant
+   * @returns Whether the tenant was registered
+   */
+  remove(id: string): boolean {
+    return this.tenants.delete(id);
+  }
+
+  /**
+   * Check whether a tenant is registered
+   */
+  has(id: string): boolean {
+    return this.tenants.has(id);
+  }
+
+  /**
+   * Get IDs of registered tenants
+   */
+  getTenantIds(): string[] {
+    return [...this.tenants.keys()];
+  }
+
+  /**
+   * Get client of a tenant
+   * @throws VerstkaNotFoundError if the tenant is not registered
+   */
+  getClient(id: string): VerstkaClient {
+    return this.getTenant(id).client;
+  }
+
+  /**
+   * Get content manager of a tenant
+   * @throws VerstkaNotFoundError if the tenant is not registered
+   */
+  getContentManager(id: string): VerstkaContentManager {
+    return this.getTenant(id).content;
+  }
+
+  /**
+   * Find the tenant of a request
+   * The tenant custom field wins over host, signatures are tried last and
+   * only a single matching tenant is accepted.
+   *
+   * @param params - Callback data, host and callback URL
+   * @returns Tenant ID, or undefined if no tenant matches
+   */
+  resolve(params: TenantResolveParams): string | undefined {
+    const { callbackData, host, callbackUrl, callbackToken } = params;
+    const fieldValue = callbackData?.custom_fields?.[this.tenantField];
+
+    if (typeof fieldValue === 'string' && this.tenants.has(fieldValue)) {
+      return fieldValue;
+    }
+
+    if (host) {
+      const hostName = host.toLowerCase().replace(/:\d+$/, '');
+      const byHost = [...this.tenants.entries()].find(([, tenant]) => tenant.hosts.includes(hostName));
+
+      if (byHost) {
+        return byHost[0];
+      }
+    }
+
+    if (callbackData?.callback_sign) {
+      const matches = [...this.tenants.entries()].filter(([, tenant]) => {
+        const tenantCallbackUrl = tenant.client.getConfig().callbackUrl || callbackUrl;
+
+        return Boolean(tenantCallbackUrl) && tenant.client.getAuth().verifyCallbackSignature({
+          material_id: callbackData.material_id,
+          user_id: callbackData.user_id || '',
+          callback_url: callbackToken
+            ? appendCallbackToken(tenantCallbackUrl!, callbackToken)
+            : tenantCallbackUrl!,
+          callback_sign: callbackData.callback_sign!,
+        });
+      });
+
+      if (matches.length === 1) {
+        return matches[0]![0];
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Open editor with the credentials of a tenant
+   * The tenant ID is added to custom fields so that the callback can be routed back.
+   *
+   * @param tenantId - Tenant ID
+   * @param params - Editor parameters
+   * @returns Editor session
+   */
+  async openEditor(tenantId: string, params: GetEditorUrlParams): Promise<OpenEditorResponse> {
+    return this.getTenant(tenantId).content.openEditor({
+      ...params,
+      customFields: { ...params.customFields, [this.tenantField]: tenantId },
+    });
+  }
+
+  /**
+   * Get editor URL with the credentials of a tenant
+   *
+   * @param tenantId - Tenant ID
+   * @param params - Editor parameters
+   * @returns Editor URL
+   */
+  async getEditorUrl(tenantId: string, params: GetEditorUrlParams): Promise<string> {
+    return (await this.openEditor(tenantId, params)).editUrl;
+  }
+
+  /**
+   * Save callback with the credentials of its tenant, within the tenant concurrency limit
+   *
+   * @param callbackData - Data received from Verstka callback
+   * @param saveHandler - Function to handle downloaded files
+   * @param options - Save options with host or tenantId
+   * @returns Save result
+   * @throws VerstkaSignatureError with code UNKNOWN_TENANT if no tenant matches
+   */
+  async save<M extends SaveMode = 'disk'>(
+    callbackData: CallbackData,
+    saveHandler?: SaveHandler<M>,
+    options: TenantSaveOptions<M> = {}
+  ): Promise<SaveResult<M>> {
+    const { host, tenantId, ...saveOptions } = options;
+    const tenant = this.getCallbackTenant(callbackData, tenantId, host, saveOptions);
+    const save = () => tenant.content.save(callbackData, saveHandler, saveOptions as SaveOptions<M>);
+
+    return tenant.limit ? tenant.limit(save) : save();
+  }
+
+  /**
+   * Queue callback with the queue of its tenant
+   *
+   * @param callbackData - Data received from Verstka callback
+   * @param options - Save options with host or tenantId
+   * @returns Queued job
+   * @throws VerstkaSignatureError with code UNKNOWN_TENANT if no tenant matches
+   */
+  async enqueueSave(callbackData: CallbackData, options: TenantSaveOptions = {}): Promise<SaveJob> {
+    const { host, tenantId, ...saveOptions } = options;
+    const tenant = this.getCallbackTenant(callbackData, tenantId, host, saveOptions);
+
+    return tenant.content.enqueueSave(callbackData, saveOptions);
+  }
+
+  /**
+   * Get tenant of a callback
+   */
+  private getCallbackTenant(
+    callbackData: CallbackData,
+    tenantId: string | undefined,
+    host: string | undefined,
+    options: SaveOptions
+  ): Tenant {
+    const { callbackUrl, callbackToken } = options;
+    const id = tenantId || this.resolve({
+      callbackData,
+      ...(host ? { host } : {}),
+      ...(callbackUrl ? { callbackUrl } : {}),
+      ...(callbackToken ? { callbackToken } : {}),
+    });
+    const tenant = id ? this.tenants.get(id) : undefined;
+
+    if (!tenant) {
+      throw new VerstkaSignatureError(
+        'UNKNOWN_TENANT',
+        `Cannot find tenant of callback for material ${callbackData.material_id}`
+      );
+    }
+
+    return tenant;
+  }
+
+  /**
+   * Get registered tenant
+   */
+  private getTenant(id: string): Tenant {
+    const tenant = this.tenants.get(id);
+
+    if (!tenant) {
+      throw new VerstkaNotFoundError('TENANT_NOT_FOUND', `Unknown tenant: ${id}`);
+    }
+
+    return tenant;
+  }
+}
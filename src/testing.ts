@@ -0,0 +1,521 @@
+/**
+ * Local mock of the Verstka API for integration tests
+ * Import from 'verstka-nodejs-sdk/testing'.
+ */
+
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import type { AddressInfo } from 'net';
+import type { CallbackData, CustomFields, VerstkaSdkOptions } from './types.js';
+import { VerstkaAuth } from './auth.js';
+
+/**
+ * Files of a fixture bundle, keyed by file name
+ */
+export type MockBundleFiles = Record<string, string | Buffer>;
+
+/**
+ * Options for a fixture bundle
+ */
+export interface MockBundleOptions {
+  /** Names listed by the download endpoint without content, answered with 404 */
+  missing?: string[];
+}
+
+/**
+ * Failure injected into matching requests
+ */
+export interface MockFailure {
+  /** Request path or pattern, e.g. '/api/open' or /\/download\/.+\/image\.png$/ */
+  path: string | RegExp;
+  /** Answer with this HTTP status */
+  status?: number;
+  /** Answer with HTTP 200 and rc 0 with this message */
+  rm?: string;
+  /** Delay before answering in milliseconds, longer than the client timeout to simulate timeouts */
+  delay?: number;
+  /** Close the connection without answering */
+  reset?: boolean;
+  /** Answer with HTTP 302 to this URL */
+  redirect?: string;
+  /** Number of requests to fail (default: all) */
+  times?: number;
+}
+
+/**
+ * Request received by the mock server
+ */
+export interface MockRequestRecord {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  /** Form or JSON fields of the body, file fields are omitted */
+  fields: Record<string, string>;
+}
+
+/**
+ * Editor session opened through /open
+ */
+export interface MockSession {
+  sessionId: string;
+  materialId: string;
+  userId: string;
+  callbackUrl: string;
+  hostName: string;
+  htmlBody: string;
+  customFields: CustomFields | undefined;
+  /** Pictures uploaded to upload_url, keyed by picture name */
+  uploads: Record<string, Buffer>;
+}
+
+/**
+ * Options for the mock server
+ */
+export interface MockVerstkaServerOptions {
+  /** API key accepted by /open (default: 'test-api-key') */
+  apiKey?: string;
+  /** Secret used to check and build signatures (default: 'test-secret') */
+  secret?: string;
+  /** Host to listen on (default: 127.0.0.1) */
+  host?: string;
+  /** Port to listen on (default: random free port) */
+  port?: number;
+  /** Reject /open with a wrong callback_sign (default: true) */
+  verifySignatures?: boolean;
+  /** Pictures reported as lacking by /open, uploaded to the session upload_url */
+  lackingPictures?: string[];
+}
+
+/**
+ * Parameters of a signed callback
+ */
+export interface MockCallbackParams {
+  /** Material identifier, M-prefixed for the mobile version */
+  materialId: string;
+  /** User ID the editor was opened with */
+  userId?: string;
+  /** Callback URL the editor was opened with */
+  callbackUrl: string;
+  /** Download URL of the saved files */
+  downloadUrl: string;
+  /** Saved article HTML */
+  htmlBody?: string;
+  /** Session identifier */
+  sessionId?: string;
+  /** Custom fields */
+  customFields?: CustomFields;
+}
+
+/**
+ * Build callback data signed the way Verstka signs it
+ *
+ * @param auth - Auth with the API key and secret of the client under test
+ * @param params - Callback parameters
+ * @returns Callback data accepted by save
+ */
+export function createSignedCallbackData(auth: VerstkaAuth, params: MockCallbackParams): CallbackData {
+  const userId = params.userId || '';
+
+  return {
+    material_id: params.materialId,
+    user_id: userId,
+    download_url: params.downloadUrl,
+    html_body: params.htmlBody ?? '',
+    session_id: params.sessionId || randomUUID(),
+    ...(params.customFields ? { custom_fields: params.customFields } : {}),
+    callback_sign: auth.generateCallbackSignature({
+      materialId: params.materialId,
+      userId,
+      callbackUrl: params.callbackUrl,
+      hostName: '',
+    }),
+  };
+}
+
+/**
+ * Mock Verstka server serving /open, picture uploads and fixture bundles
+ *
+ * ```javascript
+ * const server = await new MockVerstkaServer().start();
+ * const verstka = createVerstkaSDK({ ...server.getSdkOptions(), callbackUrl });
+ * const callbackData = server.createCallback({ materialId: '1', callbackUrl, files: { 'a.png': png } });
+ * await verstka.save(callbackData, saveHandler);
+ * await server.stop();
+ * ```
+ */
+export class MockVerstkaServer {
+  readonly apiKey: string;
+  readonly secret: string;
+  readonly auth: VerstkaAuth;
+  /** Requests received since start or reset */
+  readonly requests: MockRequestRecord[] = [];
+  /** Sessions opened since start or reset */
+  readonly sessions: MockSession[] = [];
+
+  private options: MockVerstkaServerOptions;
+  private server: http.Server;
+  private bundles = new Map<string, { files: MockBundleFiles; missing: string[] }>();
+  private failures: MockFailure[] = [];
+  private timers = new Set<NodeJS.Timeout>();
+  private origin = '';
+
+  constructor(options: MockVerstkaServerOptions = {}) {
+    this.options = options;
+    this.apiKey = options.apiKey || 'test-api-key';
+    this.secret = options.secret || 'test-secret';
+    this.auth = new VerstkaAuth({ apiKey: this.apiKey, secret: this.secret });
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        if (!res.headersSent) {
+          sendJson(res, 500, { rc: 0, rm: error instanceof Error ? error.message : 'Mock server error' });
+        }
+      });
+    });
+  }
+
+  /**
+   * Start listening
+   */
+  async start(): Promise<this> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port ?? 0, this.options.host || '127.0.0.1', () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = this.server.address() as AddressInfo;
+    const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+    this.origin = `http://${host}:${address.port}`;
+
+    return this;
+  }
+
+  /**
+   * Stop listening and drop open connections, including delayed responses
+   */
+  async stop(): Promise<void> {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.server.closeAllConnections();
+
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Server origin, e.g. http://127.0.0.1:41234
+   */
+  get url(): string {
+    if (!this.origin) {
+      throw new Error('Mock Verstka server is not started');
+    }
+    return this.origin;
+  }
+
+  /**
+   * API base URL for the baseUrl option
+   */
+  get apiUrl(): string {
+    return `${this.url}/api`;
+  }
+
+  /**
+   * SDK options pointing at this server
+   */
+  getSdkOptions(): Pick<VerstkaSdkOptions, 'apiKey' | 'secret' | 'baseUrl'> {
+    return { apiKey: this.apiKey, secret: this.secret, baseUrl: this.apiUrl };
+  }
+
+  /**
+   * Serve a fixture bundle
+   *
+   * @param files - Files of the bundle
+   * @param options - Names to list without content
+   * @returns Download URL of the bundle
+   */
+  addBundle(files: MockBundleFiles, options: MockBundleOptions = {}): string {
+    const id = randomUUID();
+    this.bundles.set(id, { files, missing: options.missing || [] });
+    return `${this.url}/download/${id}`;
+  }
+
+  /**
+   * Serve a fixture bundle and build signed callback data for it
+   *
+   * @param params - Callback parameters, downloadUrl defaults to a new bundle of files
+   * @returns Callback data accepted by save
+   */
+  createCallback(
+    params: Omit<MockCallbackParams, 'downloadUrl'> & {
+      downloadUrl?: string;
+      files?: MockBundleFiles;
+      missing?: string[];
+    }
+  ): CallbackData {
+    const { files = {}, missing, downloadUrl, ...rest } = params;
+
+    return createSignedCallbackData(this.auth, {
+      ...rest,
+      downloadUrl: downloadUrl || this.addBundle(files, missing ? { missing } : {}),
+    });
+  }
+
+  /**
+   * Fail matching requests, failures are checked in the order they were added
+   */
+  injectFailure(failure: MockFailure): void {
+    this.failures.push({ ...failure });
+  }
+
+  /**
+   * Remove injected failures
+   */
+  clearFailures(): void {
+    this.failures = [];
+  }
+
+  /**
+   * Forget requests, sessions, bundles and failures
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.sessions.length = 0;
+    this.bundles.clear();
+    this.clearFailures();
+  }
+
+  /**
+   * Route a request
+   */
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', this.url);
+    const body = await readBody(req);
+    const { fields, files } = await parseFields(req, body);
+
+    this.requests.push({ method: req.method || 'GET', path: url.pathname, headers: req.headers, fields });
+
+    const failure = this.takeFailure(url.pathname);
+
+    if (failure?.delay) {
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(() => {
+          this.timers.delete(timer);
+          resolve();
+        }, failure.delay);
+        this.timers.add(timer);
+      });
+    }
+
+    if (res.destroyed) return;
+
+    if (failure?.reset) {
+      req.socket.destroy();
+      return;
+    }
+
+    if (failure?.redirect) {
+      res.writeHead(302, { location: failure.redirect }).end();
+      return;
+    }
+
+    if (failure?.status) {
+      sendJson(res, failure.status, { rc: 0, rm: `HTTP ${failure.status}` });
+      return;
+    }
+
+    if (failure?.rm) {
+      sendJson(res, 200, { rc: 0, rm: failure.rm });
+      return;
+    }
+
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+    if (req.method === 'POST' && url.pathname === '/api/open') {
+      this.open(res, fields);
+    } else if (req.method === 'POST' && segments[0] === 'upload' && segments.length === 2) {
+      this.upload(res, segments[1]!, files);
+    } else if (req.method === 'GET' && segments[0] === 'download' && segments.length >= 2) {
+      this.download(res, segments[1]!, segments.slice(2).join('/'));
+    } else {
+      sendJson(res, 404, { rc: 0, rm: 'Not found' });
+    }
+  }
+
+  /**
+   * Answer /open with a new session
+   */
+  private open(res: http.ServerResponse, fields: Record<string, string>): void {
+    const materialId = fields.material_id || '';
+    const userId = fields.user_id || '';
+    const callbackUrl = fields.callback_url || '';
+
+    if (fields['api-key'] !== this.apiKey) {
+      sendJson(res, 200, { rc: 0, rm: 'Invalid api-key' });
+      return;
+    }
+
+    const expectedSign = this.auth.generateCallbackSignature({ materialId, userId, callbackUrl, hostName: '' });
+
+    if (this.options.verifySignatures !== false && fields.callback_sign !== expectedSign) {
+      sendJson(res, 200, { rc: 0, rm: 'Invalid callback_sign' });
+      return;
+    }
+
+    const sessionId = randomUUID();
+    const lackingPictures = this.options.lackingPictures || [];
+
+    this.sessions.push({
+      sessionId,
+      materialId,
+      userId,
+      callbackUrl,
+      hostName: fields.host_name || '',
+      htmlBody: fields.html_body || '',
+      customFields: fields.custom_fields ? JSON.parse(fields.custom_fields) as CustomFields : undefined,
+      uploads: {},
+    });
+
+    sendJson(res, 200, {
+      rc: 1,
+      rm: '',
+      data: {
+        session_id: sessionId,
+        edit_url: `${this.url}/edit/${sessionId}`,
+        client_folder: materialId,
+        lacking_pictures: lackingPictures,
+        ...(lackingPictures.length > 0 ? { upload_url: `${this.url}/upload/${sessionId}` } : {}),
+      },
+    });
+  }
+
+  /**
+   * Store uploaded lacking pictures in the session
+   */
+  private upload(res: http.ServerResponse, sessionId: string, files: Record<string, Buffer>): void {
+    const session = this.sessions.find(item => item.sessionId === sessionId);
+
+    if (!session) {
+      sendJson(res, 404, { rc: 0, rm: 'Unknown session' });
+      return;
+    }
+
+    Object.assign(session.uploads, files);
+    sendJson(res, 200, { rc: 1, rm: '' });
+  }
+
+  /**
+   * Answer with the file list of a bundle or with one of its files
+   */
+  private download(res: http.ServerResponse, bundleId: string, fileName: string): void {
+    const bundle = this.bundles.get(bundleId);
+
+    if (!bundle) {
+      sendJson(res, 404, { rc: 0, rm: 'Unknown bundle' });
+      return;
+    }
+
+    if (!fileName) {
+      sendJson(res, 200, { rc: 1, rm: '', data: [...Object.keys(bundle.files), ...bundle.missing] });
+      return;
+    }
+
+    const content = Object.prototype.hasOwnProperty.call(bundle.files, fileName)
+      ? bundle.files[fileName]
+      : undefined;
+
+    if (content === undefined) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const buffer = Buffer.isBuffer(content) ? content : Buffer.from(content);
+    res.writeHead(200, { 'content-length': buffer.length }).end(buffer);
+  }
+
+  /**
+   * First failure matching path, counting down its remaining times
+   */
+  private takeFailure(path: string): MockFailure | undefined {
+    const index = this.failures.findIndex(failure =>
+      typeof failure.path === 'string' ? failure.path === path : failure.path.test(path)
+    );
+    const failure = this.failures[index];
+
+    if (!failure) {
+      return undefined;
+    }
+
+    if (failure.times !== undefined && --failure.times <= 0) {
+      this.failures.splice(index, 1);
+    }
+
+    return failure;
+  }
+}
+
+/**
+ * Read the whole request body
+ */
+async function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Parse form, multipart or JSON fields of a body
+ */
+async function parseFields(
+  req: http.IncomingMessage,
+  body: Buffer
+): Promise<{ fields: Record<string, string>; files: Record<string, Buffer> }> {
+  const contentType = req.headers['content-type'] || '';
+  const fields: Record<string, string> = {};
+  const files: Record<string, Buffer> = {};
+
+  if (body.length === 0) {
+    return { fields, files };
+  }
+
+  if (contentType.includes('json')) {
+    const data = JSON.parse(body.toString('utf8')) as Record<string, unknown>;
+    for (const [key, value] of Object.entries(data)) {
+      fields[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+    return { fields, files };
+  }
+
+  if (contentType.includes('multipart/form-data') || contentType.includes('x-www-form-urlencoded')) {
+    const formData = await new Response(body, { headers: { 'content-type': contentType } }).formData();
+
+    for (const [key, value] of formData) {
+      if (typeof value === 'string') {
+        fields[key] = value;
+      } else {
+        files[key] = Buffer.from(await value.arrayBuffer());
+      }
+    }
+  }
+
+  return { fields, files };
+}
+
+/**
+ * Send JSON response
+ */
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' }).end(JSON.stringify(body));
+}
+
+/**
+ * Create and start a mock server
+ *
+ * @param options - Server options
+ * @returns Started server
+ */
+export function startMockVerstkaServer(options: MockVerstkaServerOptions = {}): Promise<MockVerstkaServer> {
+  return new MockVerstkaServer(options).start();
+}
@@ -0,0 +1,592 @@
+/**
+ * HTTP transport shared by API calls, file downloads and uploads
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as tls from 'tls';
+import { Duplex, Readable } from 'stream';
+
+/**
+ * Request sent through a transport
+ */
+export interface HttpRequest {
+  /** Absolute URL */
+  url: string;
+  /** HTTP method (default: GET) */
+  method?: string;
+  /** Request headers */
+  headers?: Record<string, string>;
+  /**
+   * Request body, FormData is sent as multipart/form-data.
+   * A stream is sent as is, set content-length to avoid chunked encoding.
+   */
+  body?: string | Buffer | FormData | Readable;
+  /** Abort signal, also destroys the response body once aborted */
+  signal?: AbortSignal;
+  /** 'manual' returns redirect responses instead of following them (default: 'follow') */
+  redirect?: 'follow' | 'manual';
+}
+
+/**
+ * Sends HTTP requests for the SDK
+ * Responses use the WHATWG Response class, so a mock can return new Response(...).
+ */
+export interface HttpTransport {
+  request(request: HttpRequest): Promise<Response>;
+}
+
+/**
+ * Change a request before it is sent
+ */
+export type HttpRequestInterceptor = (request: HttpRequest) => HttpRequest | Promise<HttpRequest>;
+
+/**
+ * Inspect or replace a response before the SDK reads it
+ */
+export type HttpResponseInterceptor = (
+  response: Response,
+  request: HttpRequest
+) => Response | Promise<Response>;
+
+/**
+ * Interceptors run in order for every request
+ */
+export interface HttpInterceptors {
+  request?: HttpRequestInterceptor[];
+  response?: HttpResponseInterceptor[];
+}
+
+/**
+ * Options for the default node:http transport
+ */
+export interface NodeHttpTransportOptions {
+  /**
+   * Proxy URL for all requests, false to ignore the environment
+   * (default: HTTPS_PROXY / HTTP_PROXY, hosts in NO_PROXY are requested directly)
+   */
+  proxy?: string | false;
+  /** Hosts requested without proxy, comma separated (default: NO_PROXY) */
+  noProxy?: string;
+  /** CA certificates to trust instead of the bundled ones */
+  ca?: string | Buffer | Array<string | Buffer>;
+  /** Verify TLS certificates (default: true) */
+  rejectUnauthorized?: boolean;
+  /** Agent for http: URLs (replaces keepAlive and maxSockets) */
+  httpAgent?: http.Agent;
+  /** Agent for https: URLs (replaces keepAlive, maxSockets and ca) */
+  httpsAgent?: https.Agent;
+  /** Reuse connections (default: true) */
+  keepAlive?: boolean;
+  /** Maximum number of sockets per host (default: 50) */
+  maxSockets?: number;
+  /** Maximum number of redirects to follow (default: 5) */
+  maxRedirects?: number;
+}
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+/**
+ * Transport built on node:http and node:https with keep-alive agents,
+ * proxy support and custom CA bundles
+ */
+export class NodeHttpTransport implements HttpTransport {
+  private options: NodeHttpTransportOptions;
+  private httpAgent: http.Agent;
+  private httpsAgent: https.Agent;
+  private tunnelAgents = new Map<string, https.Agent>();
+
+  constructor(options: NodeHttpTransportOptions = {}) {
+    const keepAlive = options.keepAlive ?? true;
+    const maxSockets = options.maxSockets ?? 50;
+
+    this.options = options;
+    this.httpAgent = options.httpAgent || new http.Agent({ keepAlive, maxSockets });
+    this.httpsAgent = options.httpsAgent || new https.Agent({
+      keepAlive,
+      maxSockets,
+      ...this.getTlsOptions(),
+    });
+  }
+
+  /**
+   * Send request, following redirects
+   */
+  async request(request: HttpRequest): Promise<Response> {
+    const maxRedirects = this.options.maxRedirects ?? 5;
+    let current = await encodeBody(request);
+
+    for (let redirects = 0; ; redirects++) {
+      const response = await this.send(current);
+      const location = response.headers.get('location');
+
+      if (
+        request.redirect === 'manual'
+        || !REDIRECT_STATUSES.includes(response.status)
+        || !location
+        || redirects >= maxRedirects
+      ) {
+        return response;
+      }
+
+      const next = getRedirectRequest(current, response.status, new URL(location, current.url).toString());
+
+      // A stream body is consumed and cannot be sent again
+      if (next.body instanceof Readable) {
+        return response;
+      }
+
+      await response.body?.cancel().catch(() => undefined);
+      current = next;
+    }
+  }
+
+  /**
+   * Destroy pooled connections
+   */
+  close(): void {
+    this.httpAgent.destroy();
+    this.httpsAgent.destroy();
+    this.tunnelAgents.forEach(agent => agent.destroy());
+    this.tunnelAgents.clear();
+  }
+
+  /**
+   * Send a single request
+   */
+  private send(request: EncodedRequest): Promise<Response> {
+    const url = new URL(request.url);
+    const isHttps = url.protocol === 'https:';
+    const proxy = this.getProxy(url);
+    const headers: Record<string, string> = { ...request.headers };
+
+    if (Buffer.isBuffer(request.body)) {
+      headers['content-length'] = String(request.body.length);
+    }
+
+    let options: http.RequestOptions;
+
+    if (proxy && !isHttps) {
+      // Plain HTTP goes to the proxy with the absolute URL as path
+      options = {
+        host: proxy.hostname,
+        port: proxy.port || 80,
+        path: url.toString(),
+        agent: this.httpAgent,
+        headers: { ...headers, host: url.host, ...getProxyAuthorization(proxy) },
+      };
+    } else {
+      options = {
+        host: url.hostname,
+        port: url.port || (isHttps ? 443 : 80),
+        path: `${url.pathname}${url.search}`,
+        agent: proxy ? this.getTunnelAgent(proxy) : isHttps ? this.httpsAgent : this.httpAgent,
+        headers,
+      };
+    }
+
+    return new Promise((resolve, reject) => {
+      const { signal } = request;
+
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      const onAbort = () => {
+        req.destroy(createAbortError());
+      };
+
+      const req = (isHttps ? https : http).request(
+        { ...options, method: request.method || 'GET' },
+        res => {
+          const releaseSignal = () => signal?.removeEventListener('abort', onAbort);
+          res.once('close', releaseSignal);
+          resolve(toResponse(res, request.method));
+        }
+      );
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      req.once('error', error => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      });
+
+      if (request.body instanceof Readable) {
+        request.body.once('error', error => req.destroy(error));
+        request.body.pipe(req);
+      } else {
+        req.end(request.body);
+      }
+    });
+  }
+
+  /**
+   * Proxy for url, when one applies
+   */
+  private getProxy(url: URL): URL | undefined {
+    const { proxy } = this.options;
+
+    if (proxy === false) {
+      return undefined;
+    }
+
+    const proxyUrl = proxy || (url.protocol === 'https:'
+      ? process.env.HTTPS_PROXY || process.env.https_proxy
+      : process.env.HTTP_PROXY || process.env.http_proxy);
+
+    if (!proxyUrl || isNoProxyHost(url, this.options.noProxy ?? process.env.NO_PROXY ?? process.env.no_proxy)) {
+      return undefined;
+    }
+
+    return new URL(proxyUrl.includes('://') ? proxyUrl : `http://${proxyUrl}`);
+  }
+
+  /**
+   * Agent opening HTTPS connections through a CONNECT tunnel, pooled per proxy
+   */
+  private getTunnelAgent(proxy: URL): https.Agent {
+    const key = proxy.toString();
+    let agent = this.tunnelAgents.get(key);
+
+    if (!agent) {
+      agent = new TunnelAgent(proxy, {
+        keepAlive: this.options.keepAlive ?? true,
+        maxSockets: this.options.maxSockets ?? 50,
+        ...this.getTlsOptions(),
+      });
+      this.tunnelAgents.set(key, agent);
+    }
+
+    return agent;
+  }
+
+  /**
+   * TLS options for agents created by the transport
+   */
+  private getTlsOptions(): Pick<https.AgentOptions, 'ca' | 'rejectUnauthorized'> {
+    return {
+      ...(this.options.ca ? { ca: this.options.ca } : {}),
+      ...(this.options.rejectUnauthorized !== undefined
+        ? { rejectUnauthorized: this.options.rejectUnauthorized }
+        : {}),
+    };
+  }
+}
+
+/**
+ * HTTPS agent connecting through an HTTP proxy with CONNECT
+ */
+class TunnelAgent extends https.Agent {
+  private proxy: URL;
+
+  constructor(proxy: URL, options: https.AgentOptions) {
+    super(options);
+    this.proxy = proxy;
+  }
+
+  /**
+   * Start TLS over a tunnel to the target host
+   * The TLS socket is returned right away, its handshake is sent once the proxy accepts CONNECT.
+   */
+  override createConnection(netOptions: net.NetConnectOpts): Duplex {
+    const options = netOptions as tls.ConnectionOptions;
+    const target = `${options.host}:${options.port}`;
+
+    return tls.connect({
+      ...options,
+      socket: openTunnel(this.proxy, target),
+      servername: options.servername || options.host || '',
+    });
+  }
+}
+
+/**
+ * Open CONNECT tunnel through an HTTP proxy
+ * Writes are held back until the proxy accepts the tunnel, failures destroy the stream.
+ *
+ * @param proxy - Proxy URL
+ * @param target - host:port to connect to
+ * @returns Stream to the target
+ */
+function openTunnel(proxy: URL, target: string): Duplex {
+  let proxySocket: Duplex | undefined;
+  let pendingWrite: ((socket: Duplex) => void) | undefined;
+
+  const connect = http.request({
+    host: proxy.hostname,
+    port: proxy.port || 80,
+    method: 'CONNECT',
+    path: target,
+    headers: { host: target, ...getProxyAuthorization(proxy) },
+  });
+
+  const tunnel = new Duplex({
+    read() {
+      proxySocket?.resume();
+    },
+    write(chunk: Buffer, _encoding, callback) {
+      const send = (socket: Duplex) => socket.write(chunk, error => callback(error));
+
+      if (proxySocket) {
+        send(proxySocket);
+      } else {
+        pendingWrite = send;
+      }
+    },
+    final(callback) {
+      if (proxySocket) {
+        proxySocket.end(callback);
+      } else {
+        callback();
+      }
+    },
+    destroy(error, callback) {
+      proxySocket?.destroy();
+      connect.destroy();
+      callback(error);
+    },
+  });
+
+  connect.once('connect', (res, socket, head) => {
+    if (res.statusCode !== 200) {
+      socket.destroy();
+      tunnel.destroy(new Error(`Proxy CONNECT to ${target} failed: HTTP ${res.statusCode}`));
+      return;
+    }
+
+    proxySocket = socket;
+
+    if (head.length > 0) {
+      tunnel.push(head);
+    }
+
+    socket.on('data', (data: Buffer) => {
+      if (!tunnel.push(data)) socket.pause();
+    });
+    socket.once('end', () => tunnel.push(null));
+    socket.once('error', error => tunnel.destroy(error));
+
+    pendingWrite?.(socket);
+    pendingWrite = undefined;
+  });
+  connect.once('error', error => tunnel.destroy(error));
+  connect.end();
+
+  return tunnel;
+}
+
+/**
+ * Request with body encoded to bytes or streamed
+ */
+interface EncodedRequest extends Omit<HttpRequest, 'body'> {
+  body?: Buffer | Readable;
+}
+
+/**
+ * Encode string and FormData bodies, streams pass through
+ */
+async function encodeBody(request: HttpRequest): Promise<EncodedRequest> {
+  const { body, ...rest } = request;
+
+  if (body === undefined) {
+    return rest;
+  }
+
+  if (typeof body === 'string') {
+    return { ...rest, body: Buffer.from(body) };
+  }
+
+  if (Buffer.isBuffer(body) || body instanceof Readable) {
+    return { ...rest, body };
+  }
+
+  // Let Response pick the multipart boundary
+  const encoded = new Response(body);
+  return {
+    ...rest,
+    headers: {
+      ...withoutHeader(rest.headers, 'content-type'),
+      'content-type': encoded.headers.get('content-type') || 'multipart/form-data',
+    },
+    body: Buffer.from(await encoded.arrayBuffer()),
+  };
+}
+
+/**
+ * Request for a redirect target
+ * 303, and 301/302 after POST, switch to GET without body as browsers do.
+ */
+function getRedirectRequest(request: EncodedRequest, status: number, location: string): EncodedRequest {
+  const sameOrigin = new URL(location).origin === new URL(request.url).origin;
+  let headers = request.headers || {};
+
+  if (!sameOrigin) {
+    headers = withoutHeader(withoutHeader(headers, 'authorization'), 'cookie');
+  }
+
+  if (status === 303 || ((status === 301 || status === 302) && request.method === 'POST')) {
+    return {
+      url: location,
+      method: 'GET',
+      headers: withoutHeader(withoutHeader(headers, 'content-type'), 'content-length'),
+      ...(request.signal ? { signal: request.signal } : {}),
+    };
+  }
+
+  return { ...request, url: location, headers };
+}
+
+/**
+ * Copy headers without name (case-insensitive)
+ */
+function withoutHeader(headers: Record<string, string> = {}, name: string): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).filter(([key]) => key.toLowerCase() !== name));
+}
+
+/**
+ * Wrap node response into a WHATWG Response
+ */
+function toResponse(res: http.IncomingMessage, method: string = 'GET'): Response {
+  const headers = new Headers();
+
+  for (const [name, value] of Object.entries(res.headers)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      headers.append(name, item);
+    }
+  }
+
+  const status = res.statusCode || 500;
+  const hasBody = !NULL_BODY_STATUSES.includes(status) && method !== 'HEAD';
+
+  if (!hasBody) {
+    res.resume();
+  }
+
+  return new Response(hasBody ? Readable.toWeb(res) as ReadableStream<Uint8Array> : null, {
+    status,
+    statusText: res.statusMessage || '',
+    headers,
+  });
+}
+
+/**
+ * Proxy-Authorization header for credentials in the proxy URL
+ */
+function getProxyAuthorization(proxy: URL): Record<string, string> {
+  if (!proxy.username) {
+    return {};
+  }
+
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return { 'proxy-authorization': `Basic ${Buffer.from(credentials).toString('base64')}` };
+}
+
+/**
+ * Check host against a NO_PROXY list (exact hosts, domain suffixes, host:port or *)
+ */
+function isNoProxyHost(url: URL, noProxy: string | undefined): boolean {
+  if (!noProxy) {
+    return false;
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+  return noProxy.split(/[\s,]+/).filter(Boolean).some(entry => {
+    if (entry === '*') return true;
+
+    const [entryHost = '', entryPort] = entry.toLowerCase().split(':');
+    if (entryPort && entryPort !== port) return false;
+
+    const domain = entryHost.replace(/^\*?\./, '');
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Error thrown when a request is aborted through its signal
+ */
+function createAbortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Transport calling a fetch implementation, for runtimes without node:http
+ * or for tests
+ *
+ * @param fetchImpl - fetch function (default: global fetch)
+ * @returns Transport sending requests with fetchImpl
+ */
+export function createFetchTransport(fetchImpl: typeof fetch = fetch): HttpTransport {
+  return {
+    request: ({ url, method, headers, body, signal, redirect }) => fetchImpl(url, {
+      method: method || 'GET',
+      ...(redirect ? { redirect } : {}),
+      ...(headers ? { headers } : {}),
+      ...(body instanceof Readable
+        ? { body: Readable.toWeb(body) as ReadableStream<Uint8Array>, duplex: 'half' }
+        : body !== undefined ? { body } : {}),
+      ...(signal ? { signal } : {}),
+    } as RequestInit),
+  };
+}
+
+/**
+ * Add default headers and interceptors to a transport
+ *
+ * @param transport - Transport to wrap
+ * @param headers - Headers added to every request, request headers win
+ * @param interceptors - Request and response interceptors
+ * @returns Wrapped transport
+ */
+export function withInterceptors(
+  transport: HttpTransport,
+  headers: Record<string, string> = {},
+  interceptors: HttpInterceptors = {}
+): HttpTransport {
+  return {
+    async request(request) {
+      let current: HttpRequest = {
+        ...request,
+        headers: { ...lowerCaseHeaders(headers), ...lowerCaseHeaders(request.headers) },
+      };
+
+      for (const intercept of interceptors.request || []) {
+        current = await intercept(current);
+      }
+
+      let response = await transport.request(current);
+
+      for (const intercept of interceptors.response || []) {
+        response = await intercept(response, current);
+      }
+
+      return response;
+    },
+  };
+}
+
+/**
+ * Normalize header names so that defaults and request headers merge
+ */
+function lowerCaseHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+}
+
+let defaultTransport: HttpTransport | undefined;
+
+/**
+ * Shared transport used when none is passed
+ */
+export function getDefaultTransport(): HttpTransport {
+  if (!defaultTransport) {
+    defaultTransport = new NodeHttpTransport();
+  }
+  return defaultTransport;
+}
@@ -2,6 +2,11 @@
  * TypeScript type definitions for Verstka SDK
  */
 
+import type { Readable } from 'stream';
+import type { Logger, LogLevel } from './logger.js';
+import type { VerstkaTracer, VerstkaMetrics } from './telemetry.js';
+import type { HttpInterceptors, HttpTransport, NodeHttpTransportOptions } from './transport.js';
+
 /**
  * Callback data received from Verstka
  */
@@ -29,6 +34,34 @@ export interface FileMap {
   [fileName: string]: string;
 }
 
+/**
+ * Map of file names to their content (memory save mode)
+ */
+export interface BufferMap {
+  [fileName: string]: Buffer;
+}
+
+/**
+ * Map of file names to streams that download the file on first read (stream save mode)
+ */
+export interface StreamMap {
+  [fileName: string]: Readable;
+}
+
+/**
+ * How save hands files to SaveHandler:
+ * - disk: files are written to a temporary directory, fileMap holds paths
+ * - memory: files are kept in memory, fileMap holds Buffers
+ * - stream: nothing is downloaded before SaveHandler, fileMap holds readable streams
+ */
+export type SaveMode = 'disk' | 'memory' | 'stream';
+
+/**
+ * File map handed to SaveHandler in a save mode
+ */
+export type SaveFileMap<M extends SaveMode> =
+  M extends 'memory' ? BufferMap : M extends 'stream' ? StreamMap : FileMap;
+
 /**
  * Information about failed file download
  */
@@ -37,26 +70,466 @@ export interface FailedFile {
   fileName: string;
   /** Error message */
   error: string;
+  /** Number of download attempts made */
+  attempts?: number;
+  /** HTTP status of the last attempt */
+  status?: number;
+  /** Machine-readable failure reason */
+  reason?: FailedFileReason;
 }
 
+/**
+ * Reason why a file failed
+ */
+export type FailedFileReason =
+  | 'INVALID_FILE_NAME'
+  | 'EXTENSION_NOT_ALLOWED'
+  | 'MIME_NOT_ALLOWED'
+  | 'MIME_MISMATCH'
+  | 'SIZE_LIMIT'
+  | 'HTTP_ERROR'
+  | 'NETWORK_ERROR'
+  | 'UPLOAD_FAILED';
+
 /**
  * Parameters passed to SaveHandler
  */
-export interface SaveHandlerParams {
-  /** Map of file names to their temporary file paths */
-  fileMap: FileMap;
+export interface SaveHandlerParams<M extends SaveMode = 'disk'> {
+  /** Map of file names to temporary file paths, Buffers or streams, depending on the save mode */
+  fileMap: SaveFileMap<M>;
   /** Original callback data from Verstka */
   callbackData: CallbackData;
   /** List of files that failed to download */
   failedFiles: FailedFile[];
   /** Whether this is a mobile version */
   isMobile: boolean;
+  /** Map of file names to their public URLs (when a storage adapter is configured) */
+  publishedUrls?: FileMap;
+  /** html_body with asset URLs rewritten to publishedUrls */
+  rewrittenHtml?: RewriteHtmlResult;
+  /** Always 'saved', skipped duplicate and stale saves do not call saveHandler */
+  outcome: SaveOutcome;
+  /** Last applied save of this material version (when a save store is configured) */
+  previousSave?: SaveRecord;
+  /** Files compared with the previous save (when an asset cache is configured) */
+  changes?: FileChanges;
+}
+
+/**
+ * Parameters passed to onSkipped for a duplicate or stale save
+ */
+export interface SkippedSaveParams {
+  /** Material ID without 'M' prefix */
+  materialId: string;
+  /** Whether this is a mobile version */
+  isMobile: boolean;
+  /** Why the save was skipped */
+  outcome: Exclude<SaveOutcome, 'saved'>;
+  /** Callback data without html_body, which is older than the applied save */
+  callbackData: Omit<CallbackData, 'html_body'>;
+  /** Last applied save of this material version */
+  previousSave?: SaveRecord;
+}
+
+/**
+ * Result of rewriting asset URLs in HTML
+ */
+export interface RewriteHtmlResult {
+  /** HTML with rewritten asset URLs */
+  html: string;
+  /** References in the HTML with no matching downloaded file */
+  missingReferences: string[];
+  /** Downloaded files the HTML never references */
+  unreferencedFiles: string[];
+}
+
+/**
+ * Result of save
+ */
+export interface SaveResult<M extends SaveMode = 'disk'> {
+  /** Material ID without 'M' prefix */
+  materialId: string;
+  /** Whether this is a mobile version */
+  isMobile: boolean;
+  /** Map of file names to temporary file paths (removed after save unless keepTempFiles), Buffers or streams */
+  fileMap: SaveFileMap<M>;
+  /** List of files that failed to download or publish */
+  failedFiles: FailedFile[];
+  /** Map of file names to their public URLs (when a storage adapter is configured) */
+  publishedUrls?: FileMap;
+  /** html_body with asset URLs rewritten to publishedUrls */
+  rewrittenHtml?: RewriteHtmlResult;
+  /** Whether the save was applied or skipped as duplicate or stale */
+  outcome: SaveOutcome;
+  /** Last applied save of this material version (when a save store is configured) */
+  previousSave?: SaveRecord;
+  /** Files compared with the previous save (when an asset cache is configured) */
+  changes?: FileChanges;
+  /** Snapshot of this save (when a revision store is configured) */
+  revision?: Revision;
+}
+
+/**
+ * Outcome of a save:
+ * - saved: files were downloaded and saveHandler applied the save
+ * - duplicate: the same callback was already applied
+ * - stale: a newer save of the material was already applied
+ */
+export type SaveOutcome = 'saved' | 'duplicate' | 'stale';
+
+/**
+ * Last applied save of a material version
+ */
+export interface SaveRecord {
+  /** Material ID without 'M' prefix */
+  materialId: string;
+  /** Whether this is a mobile version */
+  isMobile: boolean;
+  /** Session identifier of the save */
+  sessionId?: string;
+  /** Fingerprint of the callback */
+  fingerprint: string;
+  /** Fingerprints of earlier applied saves */
+  recentFingerprints: string[];
+  /** Version used to detect stale saves */
+  version: number;
+  /** Time the save was applied (ms since epoch) */
+  savedAt: number;
+}
+
+/**
+ * Store serializing saves per material version and remembering the last applied save
+ */
+export interface SaveStore {
+  /**
+   * Wait for exclusive lock on key, the lock expires after ttl milliseconds
+   * @returns Function releasing the lock
+   */
+  acquire(key: string, ttl: number): Promise<() => Promise<void>>;
+  /** Get last applied save for key */
+  get(key: string): Promise<SaveRecord | undefined>;
+  /** Store last applied save for key */
+  set(key: string, record: SaveRecord): Promise<void>;
+}
+
+/**
+ * Storage for publishing downloaded files
+ */
+export interface StorageAdapter {
+  /**
+   * Store a local file under key
+   * @returns Public URL of the stored file
+   */
+  put(key: string, filePath: string, options?: { contentType?: string }): Promise<string>;
+  /** Remove file stored under key */
+  delete?(key: string): Promise<void>;
+  /** Get public URL for key */
+  getPublicUrl(key: string): string;
+}
+
+/**
+ * File of an applied save as remembered by the asset cache
+ */
+export interface AssetCacheEntry {
+  /** SHA-256 hex digest of the content */
+  hash: string;
+  /** File size in bytes */
+  bytes: number;
+  /** ETag of the last response, sent as If-None-Match */
+  etag?: string;
+  /** Last-Modified of the last response, sent as If-Modified-Since */
+  lastModified?: string;
+}
+
+/**
+ * Files of an applied save by file name
+ */
+export interface AssetManifest {
+  [fileName: string]: AssetCacheEntry;
+}
+
+/**
+ * Content-addressed cache of downloaded files, with the manifest of the last
+ * applied save of each material version
+ */
+export interface AssetCache {
+  /** Get manifest of the last applied save for key */
+  getManifest(key: string): Promise<AssetManifest | undefined>;
+  /** Store manifest of an applied save for key */
+  setManifest(key: string, manifest: AssetManifest): Promise<void>;
+  /** Check whether content with hash is cached */
+  has(hash: string): Promise<boolean>;
+  /** Copy cached content with hash to filePath */
+  restore(hash: string, filePath: string): Promise<void>;
+  /** Cache content of filePath under hash */
+  put(hash: string, filePath: string): Promise<void>;
+  /**
+   * Remove content no manifest refers to
+   * @returns Number of removed entries
+   */
+  prune?(): Promise<number>;
+}
+
+/**
+ * Files of a save compared with the last applied save of the material version
+ */
+export interface FileChanges {
+  /** Files the previous save did not have */
+  added: string[];
+  /** Files whose content differs from the previous save */
+  changed: string[];
+  /** Files with the same content as in the previous save */
+  unchanged: string[];
+  /** Files of the previous save missing from this one */
+  removed: string[];
+}
+
+/**
+ * Snapshot of an applied save
+ */
+export interface Revision {
+  /** Revision ID */
+  id: string;
+  /** Material ID without 'M' prefix */
+  materialId: string;
+  /** Whether this is a mobile version */
+  isMobile: boolean;
+  /** Saved article HTML */
+  htmlBody: string;
+  /** User who saved */
+  userId?: string;
+  /** Session identifier of the save */
+  sessionId?: string;
+  /** Time the revision was created (ms since epoch) */
+  createdAt: number;
+  /** Hashes and sizes of the asset files */
+  files: AssetManifest;
+}
+
+/**
+ * Difference between two revisions of a material version
+ */
+export interface RevisionDiff extends FileChanges {
+  /** Whether html_body differs */
+  htmlChanged: boolean;
+}
+
+/**
+ * Store of save snapshots, keyed by buildSaveKey(materialId, isMobile)
+ */
+export interface RevisionStore {
+  /** Store revision with asset files given as paths or contents */
+  add(key: string, revision: Omit<Revision, 'files'>, files: Record<string, string | Buffer>): Promise<Revision>;
+  /** Get revisions for key, newest first */
+  list(key: string): Promise<Revision[]>;
+  /** Get revision by ID */
+  get(key: string, revisionId: string): Promise<Revision | undefined>;
+  /** Read asset file of a revision, undefined when it is not stored */
+  readFile(revision: Revision, fileName: string): Promise<Buffer | undefined>;
+}
+
+/**
+ * Editor session opened with a per-session callback URL
+ */
+export interface EditorSession {
+  /** Session ID carried in the callback token */
+  id: string;
+  /** Material ID without 'M' prefix */
+  materialId: string;
+  /** User who opened the editor */
+  userId: string;
+  /** Whether this is a mobile version */
+  isMobile: boolean;
+  /** Session identifier returned by /open */
+  sessionId?: string;
+  /** Callback URL with the token, as sent to Verstka */
+  callbackUrl: string;
+  /** Time the editor was opened (ms since epoch) */
+  openedAt: number;
+  /** Time the callback token expires (ms since epoch) */
+  expiresAt: number;
+  /** Time the session was revoked (ms since epoch) */
+  revokedAt?: number;
+}
+
+/**
+ * Filter for listing and revoking editor sessions
+ */
+export interface EditorSessionFilter {
+  /** Sessions of a material, an 'M' prefix is removed */
+  materialId?: string;
+  /** Sessions of a user */
+  userId?: string;
+  /** Sessions of the desktop or mobile version */
+  isMobile?: boolean;
+  /** Include expired and revoked sessions (default: false) */
+  includeInactive?: boolean;
+}
+
+/**
+ * Registry of editor sessions opened with per-session callback URLs
+ */
+export interface EditorSessionRegistry {
+  /** Store session, replacing one with the same ID */
+  set(session: EditorSession): Promise<void>;
+  /** Get session by ID */
+  get(id: string): Promise<EditorSession | undefined>;
+  /** List sessions, optionally of a material */
+  list(materialId?: string): Promise<EditorSession[]>;
+  /** Remove sessions that expired before the given time */
+  prune?(before: number): Promise<number>;
 }
 
 /**
  * Handler for processing downloaded files
  */
-export type SaveHandler = (params: SaveHandlerParams) => Promise<void>;
+export type SaveHandler<M extends SaveMode = 'disk'> = (params: SaveHandlerParams<M>) => Promise<void>;
+
+/**
+ * Per-call options for save
+ */
+export interface SaveOptions<M extends SaveMode = SaveMode> {
+  /** Callback URL the editor was opened with (default: config.callbackUrl) */
+  callbackUrl?: string;
+  /** Token from the callback URL query, see getCallbackToken */
+  callbackToken?: string;
+  /** Time the callback was received, used for token expiry (default: now) */
+  receivedAt?: number;
+  /** Host the callback request arrived on, used by TenantRegistry to find the tenant */
+  host?: string;
+  /** How files are handed to SaveHandler (default: 'disk') */
+  mode?: M;
+  /** Total size cap of files kept in memory in memory mode (default: config.maxMemorySize) */
+  maxMemorySize?: number;
+  /** Storage to publish files to (default: options.storage from SDK options) */
+  storage?: StorageAdapter;
+  /** Cache of downloaded files (default: options.assetCache from SDK options) */
+  assetCache?: AssetCache;
+  /** Store for revisions of applied saves (default: options.revisionStore from SDK options) */
+  revisionStore?: RevisionStore;
+  /** Keep the temporary directory after save (default: config.keepTempFiles) */
+  keepTempFiles?: boolean;
+  /** Fail when any file is still missing after retries (default: config.failOnMissingFiles) */
+  failOnMissingFiles?: boolean;
+  /** Store for duplicate and stale save protection (default: options.saveStore from SDK options) */
+  saveStore?: SaveStore;
+  /** Version of this save for stale detection (default: getSaveVersion or time the callback was received) */
+  version?: number;
+  /** Queue used by enqueueSave (default: options.saveQueue from SDK options) */
+  saveQueue?: SaveJobQueue;
+  /** Called as the save progresses */
+  onProgress?: (progress: SaveProgress) => void;
+  /** Called instead of saveHandler when the save is skipped as duplicate or stale */
+  onSkipped?: (params: SkippedSaveParams) => void | Promise<void>;
+}
+
+/**
+ * Response body expected by Verstka from the callback endpoint
+ */
+export interface CallbackResponse {
+  /** Result code (1 for success, 0 for failure) */
+  rc: 0 | 1;
+  /** Result message */
+  rm: string;
+}
+
+/**
+ * HTTP status and message for a failed callback
+ */
+export interface CallbackErrorMapping {
+  /** HTTP status code */
+  status: number;
+  /** Message returned to Verstka in rm */
+  rm: string;
+}
+
+/**
+ * Options for HTTP callback handlers
+ */
+export interface CallbackHandlerOptions<M extends SaveMode = 'disk'> {
+  /** Function to handle downloaded files (optional when storage is configured) */
+  saveHandler?: SaveHandler<M>;
+  /** How files are handed to saveHandler (default: 'disk') */
+  mode?: M;
+  /** Callback URL the editor was opened with (default: config.callbackUrl) */
+  callbackUrl?: string | (() => string);
+  /** Maximum request body size in bytes (default: 1MB) */
+  bodyLimit?: number;
+  /** Message returned in rm on success */
+  successMessage?: string;
+  /** Map errors to HTTP status and rm message */
+  mapError?: (error: unknown) => CallbackErrorMapping;
+  /** Verify and queue the callback, answering right away; a SaveWorker runs the save (requires saveQueue) */
+  async?: boolean;
+}
+
+/**
+ * Status of a queued save:
+ * - pending: waiting for a worker (first run or retry)
+ * - running: claimed by a worker
+ * - completed: save finished
+ * - dead: failed permanently, kept in the dead-letter list
+ */
+export type SaveJobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+/**
+ * Save queued for background processing
+ */
+export interface SaveJob {
+  /** Job identifier */
+  id: string;
+  /** Session identifier from the callback */
+  sessionId?: string;
+  /** Material ID as sent by Verstka */
+  materialId: string;
+  /** Current status */
+  status: SaveJobStatus;
+  /** Verified callback data */
+  callbackData: CallbackData;
+  /** Callback URL the editor was opened with */
+  callbackUrl?: string;
+  /** Token from the callback URL query */
+  callbackToken?: string;
+  /** Version of the save for stale detection */
+  version: number;
+  /** Number of runs so far */
+  attempts: number;
+  /** Time the job was queued (ms since epoch) */
+  createdAt: number;
+  /** Time of the last status change (ms since epoch) */
+  updatedAt: number;
+  /** Earliest time of the next run (ms since epoch) */
+  nextRunAt: number;
+  /** Error message of the last failed run */
+  lastError?: string;
+  /** Save outcome once completed */
+  outcome?: SaveOutcome;
+}
+
+/**
+ * Durable queue of saves processed by SaveWorker
+ */
+export interface SaveJobQueue {
+  /** Add new job */
+  add(job: SaveJob): Promise<void>;
+  /**
+   * Claim the pending job with the earliest nextRunAt not later than now
+   * @returns Claimed job with status running, or undefined if nothing is due
+   */
+  claim(now: number): Promise<SaveJob | undefined>;
+  /** Store job after a status change */
+  update(job: SaveJob): Promise<void>;
+  /** Get job by ID */
+  get(id: string): Promise<SaveJob | undefined>;
+  /** Get latest job of a session */
+  getBySessionId(sessionId: string): Promise<SaveJob | undefined>;
+  /** List jobs, optionally by status */
+  list(status?: SaveJobStatus): Promise<SaveJob[]>;
+  /** Return running jobs not updated for maxAge to pending (left by a crashed worker) */
+  recover?(maxAge: number): Promise<number>;
+  /** Remove completed jobs older than maxAge */
+  prune?(maxAge: number): Promise<number>;
+}
 
 /**
  * Configuration for Verstka SDK
@@ -72,6 +545,50 @@ export interface VerstkaConfig {
   timeout?: number;
   /** Number of parallel downloads (default: 20) */
   downloadConcurrency?: number;
+  /** Callback URL passed to getEditorUrl, used to verify callback signatures */
+  callbackUrl?: string;
+  /**
+   * Verify callback_sign and download_url in save (default: true).
+   * Disable only for local development.
+   */
+  verifyCallbacks?: boolean;
+  /** Additional hosts trusted for download_url (default: host of baseUrl) */
+  allowedDownloadHosts?: string[];
+  /** Base directory for temporary downloads (default: os.tmpdir()) */
+  tempDir?: string;
+  /** Keep temporary files after save instead of removing them (default: false) */
+  keepTempFiles?: boolean;
+  /** Remove orphaned verstka-* temp directories older than this many milliseconds on startup */
+  tempDirTtl?: number;
+  /** Number of download retries per file (default: 3) */
+  downloadRetries?: number;
+  /** Base delay for download retry backoff in milliseconds (default: 500) */
+  downloadRetryDelay?: number;
+  /** Time without received bytes after which a file download is aborted and retried (default: timeout) */
+  downloadIdleTimeout?: number;
+  /** Fail save with VerstkaDownloadError when any file is still missing (default: false) */
+  failOnMissingFiles?: boolean;
+  /** Maximum size of a single downloaded file in bytes */
+  maxFileSize?: number;
+  /** Maximum total size of downloaded files per save in bytes */
+  maxBundleSize?: number;
+  /** Maximum total size of files kept in memory per save in memory mode (default: 100 MB) */
+  maxMemorySize?: number;
+  /** Allowed file extensions, false to allow any (default: DEFAULT_ALLOWED_EXTENSIONS) */
+  allowedExtensions?: string[] | false;
+  /** Allowed MIME types checked by magic bytes, false to skip sniffing (default: DEFAULT_ALLOWED_MIME_TYPES) */
+  allowedMimeTypes?: string[] | false;
+  /** Skip saves older than the last applied one when a save store is configured (default: true) */
+  rejectStaleSaves?: boolean;
+  /** Time in milliseconds after which a save lock is considered abandoned (default: 300000) */
+  saveLockTtl?: number;
+  /**
+   * Open editors with per-session callback URLs carrying a signed token, and reject
+   * callbacks without a token (default: false)
+   */
+  callbackTokens?: boolean;
+  /** Lifetime of callback tokens in milliseconds (default: 24 hours) */
+  callbackTokenTtl?: number;
 }
 
 /**
@@ -127,6 +644,81 @@ export interface GetEditorUrlParams {
   userIp?: string;
   /** Additional custom fields (mobile field will be set automatically) */
   customFields?: Omit<CustomFields, 'mobile'>;
+  /** Upload pictures the editor could not fetch from hostName */
+  lackingPictures?: LackingPicturesOptions;
+  /** Add a signed, expiring token to the callback URL (default: config.callbackTokens) */
+  callbackToken?: boolean;
+}
+
+/**
+ * Parameters for rolling back to a revision
+ * Lacking pictures are uploaded from the revision unless lackingPictures is given.
+ */
+export interface RollbackParams extends Omit<GetEditorUrlParams, 'htmlBody'> {
+  /** Revision to open in the editor */
+  revisionId: string;
+}
+
+/**
+ * Editor opened with the HTML of a revision
+ */
+export interface RollbackResult {
+  /** Revision opened in the editor */
+  revision: Revision;
+  /** Editor URL, the rollback is applied when the user saves */
+  editUrl: string;
+}
+
+/**
+ * Content of a lacking picture: local file path, Buffer or readable stream
+ */
+export type LackingPictureSource = string | Buffer | NodeJS.ReadableStream;
+
+/**
+ * Resolve a lacking picture name to its content
+ * Return null or undefined to skip the picture
+ */
+export type LackingPictureResolver = (
+  pictureName: string
+) => LackingPictureSource | null | undefined | Promise<LackingPictureSource | null | undefined>;
+
+/**
+ * Options for uploading lacking pictures when opening the editor
+ */
+export interface LackingPicturesOptions {
+  /** Resolver returning content for each lacking picture */
+  resolver: LackingPictureResolver;
+  /** Maximum number of concurrent uploads (default: 5) */
+  concurrency?: number;
+  /** Number of retries per picture (default: config.downloadRetries or 3) */
+  retries?: number;
+  /** Base retry delay in milliseconds (default: config.downloadRetryDelay or 500) */
+  retryDelay?: number;
+  /** Timeout per upload attempt in milliseconds (default: config.timeout or 30000) */
+  timeout?: number;
+}
+
+/**
+ * Reason why a lacking picture was not uploaded
+ */
+export type LackingPictureFailureReason = 'NOT_RESOLVED' | 'RESOLVE_FAILED' | 'UPLOAD_FAILED';
+
+/**
+ * Upload result for a single lacking picture
+ */
+export interface LackingPictureResult {
+  /** Picture name as reported by the editor */
+  pictureName: string;
+  /** Whether the picture was uploaded */
+  uploaded: boolean;
+  /** Uploaded size in bytes */
+  bytes?: number;
+  /** Number of upload attempts made */
+  attempts?: number;
+  /** Error message */
+  error?: string;
+  /** Failure category */
+  reason?: LackingPictureFailureReason;
 }
 
 /**
@@ -163,6 +755,24 @@ export interface OpenEditorResponse {
   lackingPictures?: string[];
   /** URL for uploading missing images */
   uploadUrl?: string;
+  /** Upload results, set when lackingPictures option was given */
+  pictureUploads?: LackingPictureResult[];
+  /** Session with the per-session callback URL, set when a callback token was issued */
+  editorSession?: EditorSession;
+}
+
+/**
+ * Raw data of the /open API response (internal use only)
+ * @internal
+ */
+export interface OpenEditorApiData {
+  session_id?: string;
+  edit_url?: string;
+  last_save?: string;
+  contents?: string;
+  client_folder?: string;
+  lacking_pictures?: string[];
+  upload_url?: string;
 }
 
 /**
@@ -185,25 +795,60 @@ export interface SaveCallbackParams {
   callbackSign: string;
 }
 
-/**
- * Error response structure
- */
-export interface VerstkaError extends Error {
-  /** Error code */
-  code?: string;
-  /** API response */
-  response?: VerstkaApiResponse | undefined;
-}
-
 /**
  * SDK options
  */
 export interface VerstkaSdkOptions extends VerstkaConfig {
   /** Enable debug logging */
   debug?: boolean;
+
+  /** Logger used instead of the console logger, e.g. fromPino(pino()) */
+  logger?: Logger;
+
+  /** Minimum log level, 'silent' disables logging (default: 'debug' in debug mode, otherwise 'info') */
+  logLevel?: LogLevel | 'silent';
+
+  /** Tracer for /open and save spans, e.g. fromOpenTelemetryTracer(tracer, api) (default: no-op) */
+  tracer?: VerstkaTracer;
+
+  /** Metrics sink for download and save metrics (default: no-op) */
+  metrics?: VerstkaMetrics;
+
+  /** Transport for API calls, downloads and uploads (default: NodeHttpTransport with the http options) */
+  transport?: HttpTransport;
+
+  /** Proxy, agent and TLS options of the default transport */
+  http?: NodeHttpTransportOptions;
+
+  /** Headers added to every request */
+  headers?: Record<string, string>;
+
+  /** Request and response interceptors */
+  interceptors?: HttpInterceptors;
   
   /** Enable development mode */
   dev?: boolean;
+
+  /** Storage to publish downloaded files to in save */
+  storage?: StorageAdapter;
+
+  /** Cache of downloaded files, unchanged files are not downloaded again */
+  assetCache?: AssetCache;
+
+  /** Store snapshotting every applied save for revision history and rollback */
+  revisionStore?: RevisionStore;
+
+  /** Store for duplicate and stale save protection */
+  saveStore?: SaveStore;
+
+  /** Get version of a save for stale detection (default: time the callback was received) */
+  getSaveVersion?: (callbackData: CallbackData) => number | undefined;
+
+  /** Queue for asynchronous callback processing */
+  saveQueue?: SaveJobQueue;
+
+  /** Registry of editor sessions opened with callback tokens, allows listing and revoking them */
+  sessionRegistry?: EditorSessionRegistry;
 }
 
 /**
@@ -212,8 +857,154 @@ export interface VerstkaSdkOptions extends VerstkaConfig {
 export interface DownloadOptions {
   /** Maximum number of concurrent downloads */
   concurrency?: number;
-  /** Request timeout in milliseconds */
+  /** Time to connect and receive response headers in milliseconds (default: 30000) */
   timeout?: number;
+  /** Time without received bytes after which a transfer is aborted, in milliseconds (default: timeout) */
+  idleTimeout?: number;
+  /** Number of retries after the first attempt (default: 3) */
+  retries?: number;
+  /** Base delay for exponential backoff in milliseconds (default: 500) */
+  retryDelay?: number;
+  /** Maximum delay between retries in milliseconds, also caps Retry-After (default: 10000) */
+  maxRetryDelay?: number;
+  /** HTTP statuses that are retried (default: 408, 425, 429, 500, 502, 503, 504) */
+  retryStatuses?: number[];
+  /** Maximum size of a single file in bytes */
+  maxFileSize?: number;
+  /** Maximum total size of all files in bytes */
+  maxTotalSize?: number;
+  /** Allowed file extensions, false to allow any (default: DEFAULT_ALLOWED_EXTENSIONS) */
+  allowedExtensions?: string[] | false;
+  /** Allowed MIME types checked by magic bytes, false to skip sniffing (default: DEFAULT_ALLOWED_MIME_TYPES) */
+  allowedMimeTypes?: string[] | false;
+  /** Cache used for conditional requests and to restore unchanged files */
+  assetCache?: AssetCache;
+  /** Manifest key of the material version, e.g. buildSaveKey(materialId, isMobile) (required for assetCache) */
+  cacheKey?: string;
+  /** Transport for the file list and files (default: shared NodeHttpTransport) */
+  transport?: HttpTransport;
+  /** Called with accepted file names before downloading starts */
+  onFileList?: (fileNames: string[]) => void;
+  /** Called when download of a file starts */
+  onFileStart?: (fileName: string) => void;
+  /** Called as bytes of a file are written */
+  onFileProgress?: (progress: FileProgress) => void;
+  /** Called when a file is downloaded */
+  onFileDone?: (fileName: string, stats: DownloadedFileStats) => void;
+  /** Called when a file is rejected or fails after retries */
+  onFileFailed?: (failedFile: FailedFile) => void;
+}
+
+/**
+ * Progress of a single file download
+ */
+export interface FileProgress {
+  /** File name */
+  fileName: string;
+  /** Bytes of the file written so far (current attempt) */
+  bytes: number;
+  /** File size from Content-Length, when known */
+  totalBytes?: number;
+  /** Bytes written so far for the whole bundle */
+  bundleBytes: number;
+}
+
+/**
+ * Material and session an event belongs to
+ */
+export interface VerstkaEventContext {
+  /** Material ID without 'M' prefix */
+  materialId: string;
+  /** Whether this is a mobile version */
+  isMobile: boolean;
+  /** Session identifier */
+  sessionId?: string;
+}
+
+/**
+ * Events emitted by the SDK and their payloads
+ */
+export interface VerstkaEventMap {
+  /** Editor session opened */
+  'editor:open': VerstkaEventContext & {
+    editUrl: string;
+    lackingPictures: string[];
+  };
+  /** Callback verified, save started */
+  'save:start': VerstkaEventContext & {
+    downloadUrl: string;
+  };
+  /** File list fetched */
+  'download:list': VerstkaEventContext & {
+    fileNames: string[];
+    files: number;
+  };
+  /** Bytes of a file written */
+  'download:file:progress': VerstkaEventContext & FileProgress;
+  /** File downloaded */
+  'download:file:done': VerstkaEventContext & DownloadedFileStats & {
+    fileName: string;
+  };
+  /** File rejected or failed after retries */
+  'download:file:failed': VerstkaEventContext & FailedFile;
+  /** saveHandler finished, or the save was skipped as duplicate or stale */
+  'save:handler:done': VerstkaEventContext & {
+    outcome: SaveOutcome;
+    files: number;
+    failedFiles: number;
+    bytes: number;
+    duration: number;
+  };
+  /** Save failed */
+  'save:error': VerstkaEventContext & {
+    error: unknown;
+    duration: number;
+  };
+}
+
+/**
+ * Phase of a save reported to onProgress
+ */
+export type SaveProgressPhase = 'start' | 'download' | 'publish' | 'handler' | 'done';
+
+/**
+ * Progress of a save reported to onProgress
+ */
+export interface SaveProgress extends VerstkaEventContext {
+  /** Current phase */
+  phase: SaveProgressPhase;
+  /** Number of files accepted for download */
+  filesTotal: number;
+  /** Number of files downloaded */
+  filesDone: number;
+  /** Number of files rejected or failed */
+  filesFailed: number;
+  /** Bytes downloaded so far */
+  bytes: number;
+}
+
+/**
+ * Options for removing orphaned temporary directories
+ */
+export interface TempSweepOptions {
+  /** Directory to sweep (default: os.tmpdir()) */
+  baseDir?: string;
+  /** Age in milliseconds after which a directory is removed (default: 24 hours) */
+  ttl?: number;
+}
+
+/**
+ * Statistics for a downloaded file
+ */
+export interface DownloadedFileStats {
+  /** File size in bytes */
+  bytes: number;
+  /** Download duration in milliseconds, including retries */
+  duration: number;
+  /** Number of download attempts made */
+  attempts: number;
+  /** Whether the content was restored from the asset cache after 304 Not Modified */
+  cached?: boolean;
 }
 
 /**
@@ -224,6 +1015,32 @@ export interface DownloadResult {
   fileMap: FileMap;
   /** List of files that failed to download */
   failedFiles: FailedFile[];
+  /** Size and duration of each downloaded file */
+  fileStats: { [fileName: string]: DownloadedFileStats };
+  /** Total bytes downloaded */
+  totalBytes: number;
+  /** Files compared with the cached manifest (when assetCache and cacheKey are set) */
+  changes?: FileChanges;
+  /** Manifest to store with assetCache.setManifest once the save is applied */
+  manifest?: AssetManifest;
+}
+
+/**
+ * Result of downloading files into memory
+ */
+export interface MemoryDownloadResult extends Omit<DownloadResult, 'fileMap' | 'changes' | 'manifest'> {
+  /** Map of file names to their content */
+  fileMap: BufferMap;
+}
+
+/**
+ * Streams opened for the files of a save
+ */
+export interface StreamDownloadResult {
+  /** Map of file names to streams downloading the file on first read */
+  fileMap: StreamMap;
+  /** Files rejected by name before any stream was opened */
+  failedFiles: FailedFile[];
 }
 
 /**
@@ -240,4 +1057,20 @@ export interface CallbackVerificationParams {
   callback_sign: string;
 }
 
-// Type definitions will be added here 
\ No newline at end of file
+// Type definitions will be added here 
+
+/**
+ * Claims of a callback token
+ */
+export interface CallbackTokenClaims {
+  /** Editor session ID */
+  id: string;
+  /** Material ID without 'M' prefix */
+  materialId: string;
+  /** User who opened the editor */
+  userId: string;
+  /** Whether this is a mobile version */
+  isMobile: boolean;
+  /** Expiry time (ms since epoch) */
+  expiresAt: number;
+}
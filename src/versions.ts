@@ -0,0 +1,306 @@
+/**
+ * Desktop and mobile versions of materials and their responsive embed
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { FileMap, SaveHandlerParams, SaveMode } from './types.js';
+import { buildSaveKey, stripMobilePrefix } from './idempotency.js';
+import { getSafeFileName, readJsonFile, writeFileAtomic } from './fsStore.js';
+
+/**
+ * Saved version of a material
+ */
+export interface MaterialVersion {
+  /** Article HTML to render */
+  html: string;
+  /** Map of file names to their public URLs */
+  files?: FileMap;
+  /** Session identifier of the save */
+  sessionId?: string;
+  /** Time the version was saved (ms since epoch) */
+  savedAt: number;
+}
+
+/**
+ * Desktop and mobile versions of a material, either may be missing
+ */
+export interface MaterialVersions {
+  /** Material ID without 'M' prefix */
+  materialId: string;
+  desktop?: MaterialVersion;
+  mobile?: MaterialVersion;
+}
+
+/**
+ * Store of material versions, keyed by buildSaveKey(materialId, isMobile)
+ */
+export interface MaterialVersionStore {
+  get(key: string): Promise<MaterialVersion | undefined>;
+  set(key: string, version: MaterialVersion): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Options for file-based version store
+ */
+export interface FileMaterialVersionStoreOptions {
+  /** Directory for version files */
+  dir: string;
+}
+
+/**
+ * Options for the responsive embed
+ */
+export interface MaterialEmbedOptions {
+  /**
+   * How the version is chosen:
+   * - css: both versions in the page, a media query shows one (works without JS)
+   * - script: only the chosen version is inserted, so images of the other one are not loaded;
+   *   the desktop version is the fallback without JS
+   * (default: css)
+   */
+  switch?: 'css' | 'script';
+  /** Widest viewport in pixels that gets the mobile version (default: 768) */
+  mobileMaxWidth?: number;
+  /** id of the wrapper element (default: verstka-<materialId>) */
+  id?: string;
+  /** HTML rendered when the material has no versions (default: empty) */
+  emptyHtml?: string;
+}
+
+/**
+ * In-memory version store for single-process deployments and tests
+ */
+export class MemoryMaterialVersionStore implements MaterialVersionStore {
+  private versions = new Map<string, MaterialVersion>();
+
+  /**
+   * Get version for key
+   */
+  async get(key: string): Promise<MaterialVersion | undefined> {
+    return this.versions.get(key);
+  }
+
+  /**
+   * Store version for key
+   */
+  async set(key: string, version: MaterialVersion): Promise<void> {
+    this.versions.set(key, version);
+  }
+
+  /**
+   * Remove version for key
+   */
+  async delete(key: string): Promise<void> {
+    this.versions.delete(key);
+  }
+}
+
+/**
+ * Version store keeping one JSON file per material version
+ */
+export class FileMaterialVersionStore implements MaterialVersionStore {
+  private dir: string;
+
+  constructor(options: FileMaterialVersionStoreOptions) {
+    this.dir = path.resolve(options.dir);
+  }
+
+  /**
+   * Read version for key
+   */
+  async get(key: string): Promise<MaterialVersion | undefined> {
+    return readJsonFile<MaterialVersion>(this.getPath(key));
+  }
+
+  /**
+   * Write version for key atomically
+   */
+  async set(key: string, version: MaterialVersion): Promise<void> {
+    await writeFileAtomic(this.getPath(key), JSON.stringify(version));
+  }
+
+  /**
+   * Remove version for key
+   */
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.getPath(key), { force: true });
+  }
+
+  /**
+   * Map key to a safe file name inside dir
+   */
+  private getPath(key: string): string {
+    return path.join(this.dir, `${getSafeFileName(key)}.json`);
+  }
+}
+
+/**
+ * Tracks desktop and mobile versions of materials and renders them for the site
+ */
+export class MaterialVersionManager {
+  private store: MaterialVersionStore;
+
+  constructor(store: MaterialVersionStore = new MemoryMaterialVersionStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Store a version of a material
+   *
+   * @param materialId - Material ID, an 'M' prefix is removed
+   * @param isMobile - Whether this is the mobile version
+   * @param version - HTML and file URLs, savedAt defaults to now
+   * @returns Stored version
+   */
+  async set(
+    materialId: string,
+    isMobile: boolean,
+    version: Omit<MaterialVersion, 'savedAt'> & { savedAt?: number }
+  ): Promise<MaterialVersion> {
+    const stored: MaterialVersion = { ...version, savedAt: version.savedAt ?? Date.now() };
+    await this.store.set(buildSaveKey(stripMobilePrefix(materialId), isMobile), stored);
+    return stored;
+  }
+
+  /**
+   * Store the version of a save, call from saveHandler
+   * Uses the rewritten HTML and published URLs when a storage adapter is configured,
+   * pass html and files when the saveHandler publishes files itself.
+   *
+   * @param params - saveHandler parameters
+   * @param overrides - HTML and file URLs to store instead
+   * @returns Stored version, undefined for duplicate and stale saves
+   */
+  async recordSave(
+    params: SaveHandlerParams<SaveMode>,
+    overrides: Partial<Pick<MaterialVersion, 'html' | 'files'>> = {}
+  ): Promise<MaterialVersion | undefined> {
+    if (params.outcome !== 'saved') {
+      return undefined;
+    }
+
+    const { callbackData } = params;
+    const files = overrides.files || params.publishedUrls;
+
+    return this.set(callbackData.material_id, params.isMobile, {
+      html: overrides.html ?? params.rewrittenHtml?.html ?? callbackData.html_body ?? '',
+      ...(files ? { files } : {}),
+      ...(callbackData.session_id ? { sessionId: callbackData.session_id } : {}),
+    });
+  }
+
+  /**
+   * Get one version of a material
+   */
+  async getVersion(materialId: string, isMobile: boolean): Promise<MaterialVersion | undefined> {
+    return this.store.get(buildSaveKey(stripMobilePrefix(materialId), isMobile));
+  }
+
+  /**
+   * Get both versions of a material
+   */
+  async get(materialId: string): Promise<MaterialVersions> {
+    const id = stripMobilePrefix(materialId);
+    const [desktop, mobile] = await Promise.all([
+      this.store.get(buildSaveKey(id, false)),
+      this.store.get(buildSaveKey(id, true)),
+    ]);
+
+    return {
+      materialId: id,
+      ...(desktop ? { desktop } : {}),
+      ...(mobile ? { mobile } : {}),
+    };
+  }
+
+  /**
+   * Remove one version, or both when isMobile is not given
+   */
+  async delete(materialId: string, isMobile?: boolean): Promise<void> {
+    const id = stripMobilePrefix(materialId);
+    const variants = isMobile === undefined ? [false, true] : [isMobile];
+
+    await Promise.all(variants.map(variant => this.store.delete(buildSaveKey(id, variant))));
+  }
+
+  /**
+   * Render the embed of a material
+   *
+   * @param materialId - Material ID
+   * @param options - Embed options
+   * @returns HTML snippet
+   */
+  async renderEmbed(materialId: string, options: MaterialEmbedOptions = {}): Promise<string> {
+    return renderMaterialEmbed(await this.get(materialId), options);
+  }
+}
+
+/**
+ * Render HTML serving the mobile version to narrow viewports and the desktop version to the rest
+ * A missing version is replaced by the other one for all viewports.
+ *
+ * @param versions - Versions of the material
+ * @param options - Embed options
+ * @returns HTML snippet
+ */
+export function renderMaterialEmbed(versions: MaterialVersions, options: MaterialEmbedOptions = {}): string {
+  const id = options.id || `verstka-${versions.materialId.replace(/[^\w-]/g, '_')}`;
+  const attributes = `id="${escapeAttribute(id)}" class="verstka-embed" data-material-id="${escapeAttribute(versions.materialId)}"`;
+  const { desktop, mobile } = versions;
+
+  if (!desktop || !mobile) {
+    const version = desktop || mobile;
+    return version
+      ? `<div ${attributes}>${version.html}</div>`
+      : options.emptyHtml || '';
+  }
+
+  const query = `(max-width: ${options.mobileMaxWidth ?? 768}px)`;
+
+  if (options.switch === 'script') {
+    const script = `(function(){var r=document.getElementById(${toScriptString(id)});`
+      + `var m=window.matchMedia&&window.matchMedia(${toScriptString(query)}).matches;`
+      + `var t=r.querySelector('template[data-version="'+(m?'mobile':'desktop')+'"]');`
+      + 'r.appendChild(t.content.cloneNode(true));})();';
+
+    return `<div ${attributes}>`
+      + `<noscript>${desktop.html}</noscript>`
+      + `<template data-version="desktop">${desktop.html}</template>`
+      + `<template data-version="mobile">${mobile.html}</template>`
+      + `<script>${script}</script>`
+      + '</div>';
+  }
+
+  const scope = `#${cssEscape(id)}`;
+  const style = `${scope}>.verstka-mobile{display:none}`
+    + `@media ${query}{${scope}>.verstka-desktop{display:none}${scope}>.verstka-mobile{display:block}}`;
+
+  return `<div ${attributes}>`
+    + `<style>${style}</style>`
+    + `<div class="verstka-desktop">${desktop.html}</div>`
+    + `<div class="verstka-mobile">${mobile.html}</div>`
+    + '</div>';
+}
+
+/**
+ * Escape value for a double-quoted HTML attribute
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Escape value for a CSS identifier
+ */
+function cssEscape(value: string): string {
+  return value.replace(/[^\w-]/g, char => `\\${char.charCodeAt(0).toString(16)} `);
+}
+
+/**
+ * Encode value as a JavaScript string literal safe inside <script>
+ */
+function toScriptString(value: string): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
@@ -0,0 +1,213 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  VerstkaSignatureError,
+  createFetchTransport,
+  createNodeCallbackHandler,
+  createVerstkaSDK,
+} from '../src/index.js';
+import type { CallbackData, Logger } from '../src/index.js';
+import { startMockVerstkaServer } from '../src/testing.js';
+import type { MockVerstkaServer } from '../src/testing.js';
+import { CALLBACK_URL, createPng, createTestSdk } from './helpers.js';
+
+describe('signed callbacks', () => {
+  let server: MockVerstkaServer;
+
+  before(async () => {
+    server = await startMockVerstkaServer();
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('saves a callback signed with the SDK secret', async () => {
+    const verstka = createTestSdk(server);
+    const callbackData = server.createCallback({
+      materialId: 'article-1',
+      userId: 'user-1',
+      callbackUrl: CALLBACK_URL,
+      htmlBody: '<p>Hello</p>',
+      files: { 'image.png': createPng() },
+    });
+    let handledHtml: string | undefined;
+
+    const result = await verstka.save(callbackData, async ({ callbackData: data }) => {
+      handledHtml = data.html_body;
+    });
+
+    assert.equal(result.outcome, 'saved');
+    assert.equal(result.materialId, 'article-1');
+    assert.deepEqual(result.failedFiles, []);
+    assert.equal(handledHtml, '<p>Hello</p>');
+  });
+
+  it('rejects a tampered signature', async () => {
+    const verstka = createTestSdk(server);
+    const callbackData = server.createCallback({ materialId: 'article-1', callbackUrl: CALLBACK_URL });
+    let handled = false;
+
+    await assert.rejects(
+      verstka.save({ ...callbackData, callback_sign: 'f'.repeat(32) }, async () => {
+        handled = true;
+      }),
+      (error: unknown) => error instanceof VerstkaSignatureError && error.code === 'INVALID_SIGNATURE'
+    );
+    assert.equal(handled, false);
+  });
+
+  it('rejects a callback signed for another material', async () => {
+    const verstka = createTestSdk(server);
+    const callbackData = server.createCallback({ materialId: 'article-1', callbackUrl: CALLBACK_URL });
+
+    await assert.rejects(
+      verstka.save({ ...callbackData, material_id: 'article-2' }),
+      { code: 'INVALID_SIGNATURE' }
+    );
+  });
+
+  it('rejects a callback signed with another secret', async () => {
+    const verstka = createTestSdk(server, { secret: 'other-secret' });
+    const callbackData = server.createCallback({ materialId: 'article-1', callbackUrl: CALLBACK_URL });
+
+    await assert.rejects(verstka.save(callbackData), { code: 'INVALID_SIGNATURE' });
+  });
+
+  it('rejects a callback without a signature', async () => {
+    const verstka = createTestSdk(server);
+    const callbackData = server.createCallback({ materialId: 'article-1', callbackUrl: CALLBACK_URL });
+
+    await assert.rejects(
+      verstka.save({ ...callbackData, callback_sign: '' }),
+      { code: 'MISSING_SIGNATURE' }
+    );
+  });
+
+  it('rejects a download URL on an untrusted host', async () => {
+    const verstka = createTestSdk(server);
+    const callbackData = server.createCallback({
+      materialId: 'article-1',
+      callbackUrl: CALLBACK_URL,
+      downloadUrl: 'https://attacker.example.net/download/1',
+    });
+
+    await assert.rejects(verstka.save(callbackData), { code: 'UNTRUSTED_DOWNLOAD_URL' });
+    assert.equal(server.requests.length, 0);
+  });
+
+  it('verifies download hosts against the default API URL when baseUrl is not set', async () => {
+    const credentials = server.getSdkOptions();
+    delete credentials.baseUrl;
+    // Serve https://verstka.org from the mock server
+    const transport = createFetchTransport((url, init) =>
+      fetch(String(url).replace('https://verstka.org', server.url), init));
+    const verstka = createVerstkaSDK({
+      ...credentials,
+      callbackUrl: CALLBACK_URL,
+      transport,
+      logLevel: 'silent',
+    });
+    const bundleUrl = server.addBundle({ 'image.png': createPng() });
+
+    await assert.rejects(
+      verstka.save(server.createCallback({
+        materialId: 'article-1',
+        callbackUrl: CALLBACK_URL,
+        downloadUrl: bundleUrl,
+      })),
+      { code: 'UNTRUSTED_DOWNLOAD_URL' }
+    );
+
+    const result = await verstka.save(server.createCallback({
+      materialId: 'article-1',
+      callbackUrl: CALLBACK_URL,
+      downloadUrl: bundleUrl.replace(server.url, 'https://verstka.org'),
+    }), async () => undefined);
+
+    assert.equal(result.outcome, 'saved');
+    assert.deepEqual(Object.keys(result.fileMap), ['image.png']);
+  });
+
+  it('answers callback requests through the node handler', async () => {
+    const verstka = createTestSdk(server);
+    const handler = createNodeCallbackHandler(verstka, { saveHandler: async () => undefined });
+    const app = http.createServer((req, res) => void handler(req, res));
+    await new Promise<void>(resolve => app.listen(0, '127.0.0.1', resolve));
+
+    const post = async (data: CallbackData) => {
+      const { port } = app.address() as AddressInfo;
+      const response = await fetch(`http://127.0.0.1:${port}/verstka/callback`, {
+        method: 'POST',
+        body: new URLSearchParams(
+          Object.entries(data).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+        ),
+      });
+      return { status: response.status, body: await response.json() as { rc: number } };
+    };
+
+    try {
+      const callbackData = server.createCallback({
+        materialId: 'article-1',
+        callbackUrl: CALLBACK_URL,
+        files: { 'image.png': createPng() },
+      });
+
+      assert.deepEqual(await post(callbackData), {
+        status: 200,
+        body: { rc: 1, rm: 'Article saved successfully.' },
+      });
+
+      const rejected = await post({ ...callbackData, callback_sign: 'f'.repeat(32) });
+      assert.equal(rejected.status, 403);
+      assert.equal(rejected.body.rc, 0);
+    } finally {
+      app.closeAllConnections();
+      await new Promise(resolve => app.close(resolve));
+    }
+  });
+
+  it('answers unexpected errors with a generic message and logs the details', async () => {
+    const errors: unknown[][] = [];
+    const logger: Logger = {
+      debug: () => undefined,
+      info: () => undefined,
+      warn: () => undefined,
+      error: (...args) => {
+        errors.push(args);
+      },
+      child: () => logger,
+    };
+    const verstka = createTestSdk(server, { logger, logLevel: 'error' });
+    const handler = createNodeCallbackHandler(verstka, {
+      saveHandler: async () => {
+        throw new Error('Connection to db.internal:5432 refused');
+      },
+    });
+    const app = http.createServer((req, res) => void handler(req, res));
+    await new Promise<void>(resolve => app.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const { port } = app.address() as AddressInfo;
+      const callbackData = server.createCallback({ materialId: 'article-1', callbackUrl: CALLBACK_URL });
+      const response = await fetch(`http://127.0.0.1:${port}/verstka/callback`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(callbackData),
+      });
+
+      assert.equal(response.status, 500);
+      assert.deepEqual(await response.json(), { rc: 0, rm: 'Server error' });
+      assert.ok(errors.some(args => args.some(arg => String(arg).includes('db.internal'))));
+    } finally {
+      app.closeAllConnections();
+      await new Promise(resolve => app.close(resolve));
+    }
+  });
+});
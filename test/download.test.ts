@@ -0,0 +1,242 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { VerstkaDownloadError } from '../src/index.js';
+import { startMockVerstkaServer } from '../src/testing.js';
+import type { MockVerstkaServer } from '../src/testing.js';
+import { CALLBACK_URL, createPng, createTestSdk } from './helpers.js';
+
+describe('downloads', () => {
+  let server: MockVerstkaServer;
+
+  before(async () => {
+    server = await startMockVerstkaServer();
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  /**
+   * Number of requests the mock server received for a file
+   */
+  const countRequests = (fileName: string) =>
+    server.requests.filter(request => request.path.endsWith(`/${fileName}`)).length;
+
+  it('retries a file answered with HTTP 500', async () => {
+    const verstka = createTestSdk(server);
+    const png = createPng();
+    const callbackData = server.createCallback({
+      materialId: 'article-1',
+      callbackUrl: CALLBACK_URL,
+      files: { 'image.png': png },
+    });
+    server.injectFailure({ path: /\/image\.png$/, status: 500, times: 2 });
+
+    const result = await verstka.save(callbackData, async () => undefined, { mode: 'memory' });
+
+    assert.deepEqual(result.failedFiles, []);
+    assert.deepEqual(result.fileMap['image.png'], png);
+    assert.equal(countRequests('image.png'), 3);
+  });
+
+  it('retries the file list', async () => {
+    const verstka = createTestSdk(server);
+    const callbackData = server.createCallback({
+      materialId: 'article-1',
+      callbackUrl: CALLBACK_URL,
+      files: { 'image.png': createPng() },
+    });
+    server.injectFailure({ path: /^\/download\/[^/]+$/, status: 503, times: 1 });
+
+    const result = await verstka.save(callbackData, async () => undefined, { mode: 'memory' });
+
+    assert.deepEqual(Object.keys(result.fileMap), ['image.png']);
+  });
+
+  it('reports a file still failing after all retries', async () => {
+    const verstka = createTestSdk(server, { downloadRetries: 2 });
+    const callbackData = server.createCallback({
+      materialId: 'article-1',
+      callbackUrl: CALLBACK_URL,
+      files: { 'image.png': createPng(), 'broken.png': createPng() },
+    });
+    server.injectFailure({ path: /\/broken\.png$/, status: 500 });
+
+    const result = await verstka.save(callbackData, async () => undefined, { mode: 'memory' });
+
+    assert.deepEqual(Object.keys(result.fileMap), ['image.png']);
+    assert.equal(result.failedFiles.length, 1);
+    assert.equal(result.failedFiles[0]?.fileName, 'broken.png');
+    assert.equal(result.failedFiles[0]?.status, 500);
+    assert.equal(result.failedFiles[0]?.attempts, 3);
+    assert.equal(countRequests('broken.png'), 3);
+  });
+
+  it('retries a file whose response times out', async () => {
+    const verstka = createTestSdk(server, { timeout: 200 });
+    const png = createPng();
+    const callbackData = server.createCallback({
+      materialId: 'article-1',
+      callbackUrl: CALLBACK_URL,
+      files: { 'image.png': png },
+    });
+    server.injectFailure({ path: /\/image\.png$/, delay: 1000, times: 1 });
+
+    const result = await verstka.save(callbackData, async () => undefined, { mode: 'memory' });
+
+    assert.deepEqual(result.failedFiles, []);
+    assert.deepEqual(result.fileMap['image.png'], png);
+    assert.equal(countRequests('image.png'), 2);
+  });
+
+  it('retries a file whose connection is reset', async () => {
+    const verstka = createTestSdk(server);
+    const callbackData = server.createCallback({
+      materialId: 'article-1',
+      callbackUrl: CALLBACK_URL,
+      files: { 'image.png': createPng() },
+    });
+    server.injectFailure({ path: /\/image\.png$/, reset: true, times: 1 });
+
+    const result = await verstka.save(callbackData, async () => undefined, { mode: 'memory' });
+
+    assert.deepEqual(result.failedFiles, []);
+    assert.equal(countRequests('image.png'), 2);
+  });
+
+  it('does not follow redirects away from the download host', async () => {
+    let redirected = 0;
+    const other = http.createServer((_req, res) => {
+      redirected++;
+      res.end(createPng());
+    });
+    await new Promise<void>(resolve => other.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const { port } = other.address() as AddressInfo;
+      const verstka = createTestSdk(server);
+      const callbackData = server.createCallback({
+        materialId: 'article-1',
+        callbackUrl: CALLBACK_URL,
+        files: { 'image.png': createPng() },
+      });
+      server.injectFailure({ path: /\/image\.png$/, redirect: `http://localhost:${port}/image.png` });
+
+      const result = await verstka.save(callbackData, async () => undefined, { mode: 'memory' });
+
+      assert.deepEqual(result.fileMap, {});
+      assert.equal(result.failedFiles[0]?.fileName, 'image.png');
+      assert.equal(result.failedFiles[0]?.status, 302);
+      assert.equal(redirected, 0);
+    } finally {
+      await new Promise(resolve => other.close(resolve));
+    }
+  });
+
+  it('reports a missing file without retrying it', async () => {
+    const verstka = createTestSdk(server);
+    const callbackData = server.createCallback({
+      materialId: 'article-1',
+      callbackUrl: CALLBACK_URL,
+      files: { 'image.png': createPng() },
+      missing: ['gone.png'],
+    });
+
+    const result = await verstka.save(callbackData, async () => undefined, { mode: 'memory' });
+
+    assert.deepEqual(Object.keys(result.fileMap), ['image.png']);
+    assert.equal(result.failedFiles.length, 1);
+    assert.equal(result.failedFiles[0]?.fileName, 'gone.png');
+    assert.equal(result.failedFiles[0]?.status, 404);
+    assert.equal(countRequests('gone.png'), 1);
+  });
+
+  it('fails the save on missing files when failOnMissingFiles is set', async () => {
+    const verstka = createTestSdk(server, { failOnMissingFiles: true });
+    const callbackData = server.createCallback({
+      materialId: 'article-1',
+      callbackUrl: CALLBACK_URL,
+      missing: ['gone.png'],
+    });
+    let handled = false;
+
+    await assert.rejects(
+      verstka.save(callbackData, async () => {
+        handled = true;
+      }),
+      (error: unknown) => error instanceof VerstkaDownloadError
+        && error.failedFiles.map(file => file.fileName).join() === 'gone.png'
+    );
+    assert.equal(handled, false);
+  });
+});
+
+describe('size limits', () => {
+  let server: MockVerstkaServer;
+
+  before(async () => {
+    server = await startMockVerstkaServer();
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('rejects files over maxFileSize', async () => {
+    const verstka = createTestSdk(server, { maxFileSize: 1000 });
+    const callbackData = server.createCallback({
+      materialId: 'article-1',
+      callbackUrl: CALLBACK_URL,
+      files: { 'small.png': createPng(1000), 'large.png': createPng(1001) },
+    });
+
+    const result = await verstka.save(callbackData, async () => undefined);
+
+    assert.deepEqual(Object.keys(result.fileMap), ['small.png']);
+    assert.equal(result.failedFiles.length, 1);
+    assert.equal(result.failedFiles[0]?.fileName, 'large.png');
+    assert.equal(result.failedFiles[0]?.reason, 'SIZE_LIMIT');
+  });
+
+  it('rejects files once maxBundleSize is exceeded', async () => {
+    const verstka = createTestSdk(server, { maxBundleSize: 1500 });
+    const callbackData = server.createCallback({
+      materialId: 'article-1',
+      callbackUrl: CALLBACK_URL,
+      files: { 'first.png': createPng(1000), 'second.png': createPng(1000) },
+    });
+
+    const result = await verstka.save(callbackData, async () => undefined);
+
+    assert.equal(Object.keys(result.fileMap).length, 1);
+    assert.equal(result.failedFiles.length, 1);
+    assert.equal(result.failedFiles[0]?.reason, 'SIZE_LIMIT');
+  });
+
+  it('rejects files over maxMemorySize in memory mode', async () => {
+    const verstka = createTestSdk(server);
+    const callbackData = server.createCallback({
+      materialId: 'article-1',
+      callbackUrl: CALLBACK_URL,
+      files: { 'large.png': createPng(2000) },
+    });
+
+    const result = await verstka.save(callbackData, async () => undefined, {
+      mode: 'memory',
+      maxMemorySize: 1000,
+    });
+
+    assert.deepEqual(result.fileMap, {});
+    assert.equal(result.failedFiles[0]?.reason, 'SIZE_LIMIT');
+  });
+});
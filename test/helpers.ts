@@ -0,0 +1,51 @@
+/**
+ * Fixtures shared by the behavior tests
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createVerstkaSDK } from '../src/index.js';
+import type { VerstkaSdkOptions } from '../src/index.js';
+import type { MockVerstkaServer } from '../src/testing.js';
+
+/**
+ * Callback URL the editor is opened with in tests
+ */
+export const CALLBACK_URL = 'https://example.com/verstka/callback';
+
+/**
+ * Build a PNG fixture: signature followed by size - 8 filler bytes
+ *
+ * @param size - Total size in bytes (default: 64)
+ */
+export function createPng(size = 64): Buffer {
+  const png = Buffer.alloc(size, 0x42);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(png);
+  return png;
+}
+
+/**
+ * Create an SDK talking to the mock server, with short timeouts and retry delays
+ *
+ * @param server - Started mock server
+ * @param options - Options overriding the test defaults
+ */
+export function createTestSdk(server: MockVerstkaServer, options: Partial<VerstkaSdkOptions> = {}) {
+  return createVerstkaSDK({
+    ...server.getSdkOptions(),
+    callbackUrl: CALLBACK_URL,
+    timeout: 2000,
+    downloadRetryDelay: 10,
+    logLevel: 'silent',
+    ...options,
+  });
+}
+
+/**
+ * Create a temporary directory, removed by the returned cleanup function
+ */
+export async function createTempDir(): Promise<{ dir: string; cleanup: () => Promise<void> }> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'verstka-test-'));
+  return { dir, cleanup: () => fs.rm(dir, { recursive: true, force: true }) };
+}
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { rewriteHtmlAssetUrls } from '../src/index.js';
+
+const CDN = 'https://cdn.example.com/article-1';
+
+describe('HTML asset rewriting', () => {
+  it('rewrites src, srcset, poster, link and CSS references', () => {
+    const html = [
+      '<img src="vms_images/photo.jpg" srcset="/vms_images/photo.jpg 1x, vms_images/photo@2x.jpg 2x">',
+      "<video poster='cover.png'><source src=\"./clip.mp4\"></video>",
+      '<link rel="stylesheet" href="fonts.css">',
+      '<div style="background: url(\'bg.png\')"></div>',
+      '<style>.hero { background-image: url("vms_images/bg.png"); }</style>',
+    ].join('');
+
+    const result = rewriteHtmlAssetUrls(html, {
+      'photo.jpg': `${CDN}/photo.jpg`,
+      'photo@2x.jpg': `${CDN}/photo@2x.jpg`,
+      'cover.png': `${CDN}/cover.png`,
+      'clip.mp4': `${CDN}/clip.mp4`,
+      'fonts.css': `${CDN}/fonts.css`,
+      'bg.png': `${CDN}/bg.png`,
+    });
+
+    assert.equal(result.html, [
+      `<img src="${CDN}/photo.jpg" srcset="${CDN}/photo.jpg 1x, ${CDN}/photo@2x.jpg 2x">`,
+      `<video poster='${CDN}/cover.png'><source src="${CDN}/clip.mp4"></video>`,
+      `<link rel="stylesheet" href="${CDN}/fonts.css">`,
+      `<div style="background: url('${CDN}/bg.png')"></div>`,
+      `<style>.hero { background-image: url("${CDN}/bg.png"); }</style>`,
+    ].join(''));
+    assert.deepEqual(result.missingReferences, []);
+    assert.deepEqual(result.unreferencedFiles, []);
+  });
+
+  it('reports missing references and unreferenced files', () => {
+    const result = rewriteHtmlAssetUrls('<img src="gone.png"><img src="Photo.JPG">', {
+      'photo.jpg': `${CDN}/photo.jpg`,
+      'unused.png': `${CDN}/unused.png`,
+    });
+
+    assert.equal(result.html, `<img src="gone.png"><img src="${CDN}/photo.jpg">`);
+    assert.deepEqual(result.missingReferences, ['gone.png']);
+    assert.deepEqual(result.unreferencedFiles, ['unused.png']);
+  });
+
+  it('leaves external URLs, anchors, comments and scripts alone', () => {
+    const html = [
+      '<a href="photo.jpg">Photo</a>',
+      '<img src="https://example.net/photo.jpg">',
+      '<img src="data:image/png;base64,AAAA">',
+      '<!-- <img src="photo.jpg"> -->',
+      '<script>const html = \'<img src="photo.jpg">\';</script>',
+    ].join('');
+
+    const result = rewriteHtmlAssetUrls(html, { 'photo.jpg': `${CDN}/photo.jpg` });
+
+    assert.equal(result.html, html);
+    assert.deepEqual(result.unreferencedFiles, ['photo.jpg']);
+  });
+
+  it('rewrites absolute URLs to Verstka images', () => {
+    const result = rewriteHtmlAssetUrls(
+      '<img src="https://verstka.org/storage/vms_images/photo.jpg?v=2">',
+      { 'photo.jpg': `${CDN}/photo.jpg` }
+    );
+
+    assert.equal(result.html, `<img src="${CDN}/photo.jpg">`);
+  });
+});
@@ -0,0 +1,83 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MemorySaveStore } from '../src/index.js';
+import type { SaveHandler, SkippedSaveParams } from '../src/index.js';
+import { startMockVerstkaServer } from '../src/testing.js';
+import type { MockVerstkaServer } from '../src/testing.js';
+import { CALLBACK_URL, createPng, createTestSdk } from './helpers.js';
+
+describe('duplicate and stale saves', () => {
+  let server: MockVerstkaServer;
+
+  before(async () => {
+    server = await startMockVerstkaServer();
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  /**
+   * Signed callback of article-1 with one file
+   */
+  const createCallback = (htmlBody: string) => server.createCallback({
+    materialId: 'article-1',
+    callbackUrl: CALLBACK_URL,
+    htmlBody,
+    files: { 'image.png': createPng() },
+  });
+
+  it('skips a callback delivered twice without calling saveHandler', async () => {
+    const verstka = createTestSdk(server, { saveStore: new MemorySaveStore() });
+    const callbackData = createCallback('<p>First</p>');
+    const handled: string[] = [];
+    const saveHandler: SaveHandler = async ({ callbackData: data }) => {
+      handled.push(data.html_body || '');
+    };
+
+    const first = await verstka.save(callbackData, saveHandler);
+    const downloads = server.requests.length;
+    const second = await verstka.save(callbackData, saveHandler);
+
+    assert.equal(first.outcome, 'saved');
+    assert.equal(second.outcome, 'duplicate');
+    assert.deepEqual(handled, ['<p>First</p>']);
+    assert.equal(server.requests.length, downloads);
+  });
+
+  it('rejects a save older than the applied one', async () => {
+    const verstka = createTestSdk(server, { saveStore: new MemorySaveStore() });
+    const handled: string[] = [];
+    const skipped: SkippedSaveParams[] = [];
+    const saveHandler: SaveHandler = async ({ callbackData: data }) => {
+      handled.push(data.html_body || '');
+    };
+    const onSkipped = (params: SkippedSaveParams) => {
+      skipped.push(params);
+    };
+
+    await verstka.save(createCallback('<p>Newer</p>'), saveHandler, { version: 2, onSkipped });
+    const result = await verstka.save(createCallback('<p>Older</p>'), saveHandler, { version: 1, onSkipped });
+
+    assert.equal(result.outcome, 'stale');
+    assert.deepEqual(result.fileMap, {});
+    assert.deepEqual(handled, ['<p>Newer</p>']);
+    assert.equal(skipped.length, 1);
+    assert.equal(skipped[0]?.outcome, 'stale');
+    assert.equal(skipped[0]?.materialId, 'article-1');
+    assert.ok(!('html_body' in (skipped[0]?.callbackData || {})));
+  });
+
+  it('applies an older save when rejectStaleSaves is disabled', async () => {
+    const verstka = createTestSdk(server, { saveStore: new MemorySaveStore(), rejectStaleSaves: false });
+
+    await verstka.save(createCallback('<p>Newer</p>'), async () => undefined, { version: 2 });
+    const result = await verstka.save(createCallback('<p>Older</p>'), async () => undefined, { version: 1 });
+
+    assert.equal(result.outcome, 'saved');
+  });
+});
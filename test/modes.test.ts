@@ -0,0 +1,128 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import { Readable } from 'stream';
+import { buffer } from 'stream/consumers';
+import { startMockVerstkaServer } from '../src/testing.js';
+import type { MockVerstkaServer } from '../src/testing.js';
+import { CALLBACK_URL, createPng, createTempDir, createTestSdk } from './helpers.js';
+
+describe('save modes', () => {
+  let server: MockVerstkaServer;
+  const png = createPng(4096);
+
+  before(async () => {
+    server = await startMockVerstkaServer();
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('hands temporary file paths to the handler in disk mode and removes them after save', async () => {
+    const { dir, cleanup } = await createTempDir();
+
+    try {
+      const verstka = createTestSdk(server, { tempDir: dir });
+      const callbackData = server.createCallback({
+        materialId: 'article-1',
+        callbackUrl: CALLBACK_URL,
+        files: { 'image.png': png },
+      });
+      let content: Buffer | undefined;
+
+      const result = await verstka.save(callbackData, async ({ fileMap }) => {
+        content = await fs.readFile(fileMap['image.png']!);
+      });
+
+      assert.deepEqual(content, png);
+      assert.deepEqual(Object.keys(result.fileMap), ['image.png']);
+      assert.deepEqual(await fs.readdir(dir), []);
+    } finally {
+      await cleanup();
+    }
+  });
+
+  it('keeps temporary files with keepTempFiles', async () => {
+    const { dir, cleanup } = await createTempDir();
+
+    try {
+      const verstka = createTestSdk(server, { tempDir: dir, keepTempFiles: true });
+      const callbackData = server.createCallback({
+        materialId: 'article-1',
+        callbackUrl: CALLBACK_URL,
+        files: { 'image.png': png },
+      });
+
+      const result = await verstka.save(callbackData, async () => undefined);
+
+      assert.deepEqual(await fs.readFile(result.fileMap['image.png']!), png);
+    } finally {
+      await cleanup();
+    }
+  });
+
+  it('hands Buffers to the handler in memory mode without writing files', async () => {
+    const { dir, cleanup } = await createTempDir();
+
+    try {
+      const verstka = createTestSdk(server, { tempDir: dir });
+      const callbackData = server.createCallback({
+        materialId: 'article-1',
+        callbackUrl: CALLBACK_URL,
+        files: { 'image.png': png },
+      });
+      let content: Buffer | undefined;
+
+      await verstka.save(callbackData, async ({ fileMap }) => {
+        content = fileMap['image.png'];
+      }, { mode: 'memory' });
+
+      assert.ok(Buffer.isBuffer(content));
+      assert.deepEqual(content, png);
+      assert.deepEqual(await fs.readdir(dir), []);
+    } finally {
+      await cleanup();
+    }
+  });
+
+  it('hands streams to the handler in stream mode, requesting files on first read', async () => {
+    const verstka = createTestSdk(server);
+    const callbackData = server.createCallback({
+      materialId: 'article-1',
+      callbackUrl: CALLBACK_URL,
+      files: { 'read.png': png, 'unread.png': png },
+    });
+    let content: Buffer | undefined;
+    let unread: Readable | undefined;
+
+    await verstka.save(callbackData, async ({ fileMap }) => {
+      assert.ok(fileMap['read.png'] instanceof Readable);
+      content = await buffer(fileMap['read.png']);
+      unread = fileMap['unread.png'];
+    }, { mode: 'stream' });
+
+    assert.deepEqual(content, png);
+    assert.ok(server.requests.some(request => request.path.endsWith('/read.png')));
+    assert.ok(!server.requests.some(request => request.path.endsWith('/unread.png')));
+    assert.ok(unread?.destroyed);
+  });
+
+  it('destroys a stream whose file fails in stream mode', async () => {
+    const verstka = createTestSdk(server, { downloadRetries: 0 });
+    const callbackData = server.createCallback({
+      materialId: 'article-1',
+      callbackUrl: CALLBACK_URL,
+      files: { 'image.png': png },
+    });
+    server.injectFailure({ path: /\/image\.png$/, status: 500 });
+
+    await verstka.save(callbackData, async ({ fileMap }) => {
+      await assert.rejects(buffer(fileMap['image.png']!), { name: 'VerstkaDownloadError' });
+    }, { mode: 'stream' });
+  });
+});
@@ -0,0 +1,189 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import { FileSaveJobQueue, SaveWorker, createSaveJob } from '../src/index.js';
+import type { CallbackSaver, SaveJob } from '../src/index.js';
+import { startMockVerstkaServer } from '../src/testing.js';
+import type { MockVerstkaServer } from '../src/testing.js';
+import { CALLBACK_URL, createPng, createTempDir, createTestSdk } from './helpers.js';
+
+/**
+ * File queue whose claim waits before claiming
+ */
+class SlowClaimQueue extends FileSaveJobQueue {
+  claimDelay = 0;
+
+  override async claim(now: number): Promise<SaveJob | undefined> {
+    await sleep(this.claimDelay);
+    return super.claim(now);
+  }
+}
+
+/**
+ * Saver counting saves in progress, each save waits for the time returned for its number
+ */
+function createSlowSaver(duration: number | ((save: number) => number)) {
+  const stats = { saves: 0, active: 0, maxActive: 0 };
+  const saver: CallbackSaver = {
+    save: async () => {
+      const save = stats.saves++;
+      stats.active++;
+      stats.maxActive = Math.max(stats.maxActive, stats.active);
+      await sleep(typeof duration === 'number' ? duration : duration(save));
+      stats.active--;
+      return { outcome: 'saved' };
+    },
+  };
+
+  return { saver, stats };
+}
+
+/**
+ * Wait until a condition holds
+ */
+async function waitFor(condition: () => boolean | Promise<boolean>, timeout = 5000): Promise<void> {
+  const deadline = Date.now() + timeout;
+
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error('Condition not met in time');
+    await sleep(10);
+  }
+}
+
+/**
+ * Queue jobs for article-0 to article-{count - 1}
+ */
+const addJobs = async (queue: FileSaveJobQueue, count: number) => {
+  for (let index = 0; index < count; index++) {
+    await queue.add(createSaveJob({
+      callbackData: { material_id: `article-${index}`, download_url: 'https://verstka.org/download/1' },
+      version: index,
+    }));
+  }
+};
+
+describe('save worker', () => {
+  let dir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ dir, cleanup } = await createTempDir());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it('runs no more jobs at once than concurrency while claims are slow', async () => {
+    const queue = new SlowClaimQueue({ dir });
+    queue.claimDelay = 30;
+    await addJobs(queue, 8);
+    // Short saves finish while claims are pending, long ones then overlap
+    const { saver, stats } = createSlowSaver(save => save < 4 ? 1 : 150);
+    const worker = new SaveWorker(saver, queue, { concurrency: 2, pollInterval: 10 });
+
+    await worker.start();
+    await waitFor(async () => (await queue.list('completed')).length === 8);
+    await worker.stop();
+
+    assert.equal(stats.saves, 8);
+    assert.ok(stats.maxActive <= 2, `${stats.maxActive} saves ran at once`);
+  });
+
+  it('hands back a job claimed while stopping and waits for the poll', async () => {
+    const queue = new SlowClaimQueue({ dir });
+    queue.claimDelay = 100;
+    await addJobs(queue, 1);
+    const { saver, stats } = createSlowSaver(0);
+    const worker = new SaveWorker(saver, queue, { pollInterval: 10 });
+
+    await worker.start();
+    await sleep(20);
+    await worker.stop();
+    await sleep(150);
+
+    assert.equal(stats.saves, 0);
+    assert.equal((await queue.list('pending')).length, 1);
+    assert.equal((await queue.list('running')).length, 0);
+  });
+
+  it('waits for running jobs on stop', async () => {
+    const queue = new FileSaveJobQueue({ dir });
+    await addJobs(queue, 1);
+    const { saver, stats } = createSlowSaver(100);
+    const worker = new SaveWorker(saver, queue, { pollInterval: 10 });
+
+    await worker.start();
+    await waitFor(() => stats.active === 1);
+    await worker.stop();
+
+    assert.equal((await queue.list('completed')).length, 1);
+  });
+
+  it('moves a job to the dead-letter list after its retries', async () => {
+    const queue = new FileSaveJobQueue({ dir });
+    await addJobs(queue, 1);
+    const saver: CallbackSaver = {
+      save: async () => {
+        throw new Error('Storage unavailable');
+      },
+    };
+    const worker = new SaveWorker(saver, queue, { retries: 2, retryDelay: 1, pollInterval: 10 });
+
+    await worker.start();
+    await waitFor(async () => (await worker.getDeadLetters()).length === 1);
+    await worker.stop();
+
+    const [job] = await worker.getDeadLetters();
+    assert.equal(job?.attempts, 3);
+    assert.equal(job?.lastError, 'Storage unavailable');
+  });
+});
+
+describe('asynchronous saves', () => {
+  let server: MockVerstkaServer;
+
+  before(async () => {
+    server = await startMockVerstkaServer();
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  it('queues a verified callback and saves it in the worker', async () => {
+    const { dir, cleanup } = await createTempDir();
+
+    try {
+      const verstka = createTestSdk(server, { saveQueue: new FileSaveJobQueue({ dir }) });
+      const callbackData = server.createCallback({
+        materialId: 'article-1',
+        callbackUrl: CALLBACK_URL,
+        files: { 'image.png': createPng() },
+      });
+      const saved: string[] = [];
+
+      await assert.rejects(
+        verstka.enqueueSave({ ...callbackData, callback_sign: 'f'.repeat(32) }),
+        { code: 'INVALID_SIGNATURE' }
+      );
+
+      const job = await verstka.enqueueSave(callbackData);
+      const worker = verstka.createSaveWorker({
+        pollInterval: 10,
+        saveHandler: async ({ fileMap }) => {
+          saved.push(...Object.keys(fileMap));
+        },
+      });
+
+      await worker.start();
+      await waitFor(async () => (await worker.getStatus(job.sessionId!))?.status === 'completed');
+      await worker.stop();
+
+      assert.deepEqual(saved, ['image.png']);
+      assert.equal((await worker.getStatus(job.sessionId!))?.outcome, 'saved');
+    } finally {
+      await cleanup();
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import { FileRevisionStore, VerstkaNotFoundError } from '../src/index.js';
+import { startMockVerstkaServer } from '../src/testing.js';
+import type { MockVerstkaServer } from '../src/testing.js';
+import { CALLBACK_URL, createPng, createTempDir, createTestSdk } from './helpers.js';
+
+describe('revisions and rollback', () => {
+  let server: MockVerstkaServer;
+  let dir: string;
+  let cleanup: () => Promise<void>;
+
+  before(async () => {
+    server = await startMockVerstkaServer({ lackingPictures: ['image.png'] });
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  beforeEach(async () => {
+    server.reset();
+    ({ dir, cleanup } = await createTempDir());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  /**
+   * Editor parameters of article-1
+   */
+  const editorParams = {
+    materialId: 'article-1',
+    userId: 'user-1',
+    callbackUrl: CALLBACK_URL,
+    hostName: 'https://example.com',
+    isMobile: false,
+  };
+
+  /**
+   * SDK storing revisions in the temp directory, with two saves of article-1
+   */
+  const saveTwice = async () => {
+    const verstka = createTestSdk(server, { revisionStore: new FileRevisionStore({ dir }) });
+    const first = createPng(100);
+
+    await verstka.save(server.createCallback({
+      materialId: 'article-1',
+      callbackUrl: CALLBACK_URL,
+      htmlBody: '<p>First</p>',
+      files: { 'image.png': first, 'logo.png': createPng() },
+    }), async () => undefined);
+    // Revisions are ordered by creation time
+    await sleep(5);
+    await verstka.save(server.createCallback({
+      materialId: 'article-1',
+      callbackUrl: CALLBACK_URL,
+      htmlBody: '<p>Second</p>',
+      files: { 'image.png': createPng(200), 'logo.png': createPng(), 'chart.png': createPng() },
+    }), async () => undefined);
+
+    return { verstka, first };
+  };
+
+  it('lists and compares the revisions of applied saves', async () => {
+    const { verstka } = await saveTwice();
+
+    const [second, first] = await verstka.listRevisions('article-1');
+
+    assert.equal(second?.htmlBody, '<p>Second</p>');
+    assert.equal(first?.htmlBody, '<p>First</p>');
+    assert.deepEqual(await verstka.diffRevisions('article-1', false, first!.id, second!.id), {
+      htmlChanged: true,
+      added: ['chart.png'],
+      changed: ['image.png'],
+      unchanged: ['logo.png'],
+      removed: [],
+    });
+  });
+
+  it('opens the editor with an older revision and uploads its pictures', async () => {
+    const { verstka, first } = await saveTwice();
+    const revision = (await verstka.listRevisions('article-1'))[1]!;
+
+    const result = await verstka.rollback({ ...editorParams, revisionId: revision.id });
+
+    assert.equal(result.revision.id, revision.id);
+    assert.equal(server.sessions[0]?.htmlBody, '<p>First</p>');
+    assert.deepEqual(server.sessions[0]?.uploads['image.png'], first);
+  });
+
+  it('rejects a rollback to an unknown or malformed revision', async () => {
+    const { verstka } = await saveTwice();
+
+    for (const revisionId of ['missing', '../../secret']) {
+      await assert.rejects(
+        verstka.rollback({ ...editorParams, revisionId }),
+        (error: unknown) => error instanceof VerstkaNotFoundError && error.code === 'REVISION_NOT_FOUND'
+      );
+    }
+    assert.equal(server.sessions.length, 0);
+  });
+});
@@ -0,0 +1,167 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  FileEditorSessionRegistry,
+  MemoryEditorSessionRegistry,
+  VerstkaSignatureError,
+  getCallbackToken,
+} from '../src/index.js';
+import type { EditorSession, VerstkaSdkOptions } from '../src/index.js';
+import { startMockVerstkaServer } from '../src/testing.js';
+import type { MockVerstkaServer } from '../src/testing.js';
+import { CALLBACK_URL, createPng, createTempDir, createTestSdk } from './helpers.js';
+
+describe('callback tokens', () => {
+  let server: MockVerstkaServer;
+
+  before(async () => {
+    server = await startMockVerstkaServer();
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  /**
+   * SDK issuing callback tokens, with the editor of article-1 opened for user-1
+   */
+  const openEditor = async (options: Partial<VerstkaSdkOptions> = {}) => {
+    const sessionRegistry = new MemoryEditorSessionRegistry();
+    const verstka = createTestSdk(server, { callbackTokens: true, sessionRegistry, ...options });
+    const { editorSession } = await verstka.openEditor({
+      materialId: 'article-1',
+      userId: 'user-1',
+      callbackUrl: CALLBACK_URL,
+      hostName: 'https://example.com',
+      isMobile: false,
+    });
+    assert.ok(editorSession);
+
+    const callbackData = server.createCallback({
+      materialId: 'article-1',
+      userId: 'user-1',
+      callbackUrl: editorSession.callbackUrl,
+      files: { 'image.png': createPng() },
+    });
+    const callbackToken = getCallbackToken(editorSession.callbackUrl);
+    assert.ok(callbackToken);
+
+    return { verstka, editorSession, callbackData, callbackToken };
+  };
+
+  it('opens the editor with a per-session callback URL and saves its callback', async () => {
+    const { verstka, editorSession, callbackData, callbackToken } = await openEditor();
+
+    const result = await verstka.save(callbackData, async () => undefined, { callbackToken });
+
+    assert.equal(server.sessions[0]?.callbackUrl, editorSession.callbackUrl);
+    assert.equal(result.outcome, 'saved');
+  });
+
+  it('rejects a token received after it expired', async () => {
+    const { verstka, editorSession, callbackData, callbackToken } = await openEditor({ callbackTokenTtl: 60000 });
+
+    await assert.rejects(
+      verstka.save(callbackData, async () => undefined, { callbackToken, receivedAt: editorSession.expiresAt }),
+      (error: unknown) => error instanceof VerstkaSignatureError && error.code === 'EXPIRED_TOKEN'
+    );
+    assert.equal(editorSession.expiresAt - editorSession.openedAt, 60000);
+  });
+
+  it('rejects a token of a revoked session', async () => {
+    const { verstka, editorSession, callbackData, callbackToken } = await openEditor();
+
+    const revoked = await verstka.revokeEditorSession(editorSession.id);
+
+    assert.ok(revoked?.revokedAt);
+    assert.deepEqual(await verstka.listEditorSessions({ materialId: 'article-1' }), []);
+    await assert.rejects(
+      verstka.save(callbackData, async () => undefined, { callbackToken }),
+      { code: 'REVOKED_SESSION' }
+    );
+  });
+
+  it('rejects a callback without a token', async () => {
+    const { verstka } = await openEditor();
+    // Signed for the callback URL without a token, as from an editor opened before tokens were enabled
+    const callbackData = server.createCallback({ materialId: 'article-1', userId: 'user-1', callbackUrl: CALLBACK_URL });
+
+    await assert.rejects(verstka.save(callbackData, async () => undefined), { code: 'MISSING_TOKEN' });
+  });
+
+  it('rejects a token issued for another material', async () => {
+    const { verstka, editorSession, callbackToken } = await openEditor();
+    const callbackData = server.createCallback({
+      materialId: 'article-2',
+      userId: 'user-1',
+      callbackUrl: editorSession.callbackUrl,
+    });
+
+    await assert.rejects(
+      verstka.save(callbackData, async () => undefined, { callbackToken }),
+      { code: 'INVALID_TOKEN' }
+    );
+  });
+
+  it('rejects a token whose session is not registered', async () => {
+    const { callbackData, callbackToken } = await openEditor();
+    const verstka = createTestSdk(server, { sessionRegistry: new MemoryEditorSessionRegistry() });
+
+    await assert.rejects(
+      verstka.save(callbackData, async () => undefined, { callbackToken }),
+      { code: 'INVALID_TOKEN' }
+    );
+  });
+});
+
+describe('editor session registries', () => {
+  let dir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ dir, cleanup } = await createTempDir());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  /**
+   * Session of a material expiring at the given time
+   */
+  const createSession = (id: string, materialId: string, expiresAt: number): EditorSession => ({
+    id,
+    materialId,
+    userId: 'user-1',
+    isMobile: false,
+    callbackUrl: CALLBACK_URL,
+    openedAt: 0,
+    expiresAt,
+  });
+
+  const registries: Array<[string, () => MemoryEditorSessionRegistry | FileEditorSessionRegistry]> = [
+    ['memory', () => new MemoryEditorSessionRegistry()],
+    ['file', () => new FileEditorSessionRegistry({ dir })],
+  ];
+
+  for (const [name, createRegistry] of registries) {
+    it(`stores, lists and prunes sessions in the ${name} registry`, async () => {
+      const registry = createRegistry();
+      await registry.set(createSession('session-1', 'article-1', 1000));
+      await registry.set(createSession('session-2', 'article-1', 3000));
+      await registry.set(createSession('session-3', 'article-2', 3000));
+
+      assert.equal((await registry.get('session-2'))?.expiresAt, 3000);
+      assert.equal(await registry.get('session-4'), undefined);
+      assert.deepEqual((await registry.list('article-1')).map(session => session.id).sort(), ['session-1', 'session-2']);
+
+      assert.equal(await registry.prune(2000), 1);
+      assert.equal(await registry.get('session-1'), undefined);
+      assert.equal((await registry.list()).length, 2);
+    });
+  }
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  FileAssetCache,
+  FileEditorSessionRegistry,
+  FileRevisionStore,
+  LocalStorageAdapter,
+  VerstkaValidationError,
+} from '../src/index.js';
+import type { EditorSession } from '../src/index.js';
+import { createTempDir } from './helpers.js';
+
+/**
+ * Editor session of article-1 opened now
+ */
+const createSession = (id: string): EditorSession => ({
+  id,
+  materialId: 'article-1',
+  userId: 'user-1',
+  isMobile: false,
+  callbackUrl: 'https://example.com/verstka/callback',
+  openedAt: Date.now(),
+  expiresAt: Date.now() + 60000,
+});
+
+describe('file stores', () => {
+  let dir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ dir, cleanup } = await createTempDir());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it('treats an unsafe session ID as unknown and refuses to store it', async () => {
+    const registry = new FileEditorSessionRegistry({ dir: path.join(dir, 'sessions') });
+    await fs.writeFile(path.join(dir, 'secret.json'), JSON.stringify(createSession('secret')));
+
+    assert.equal(await registry.get('../secret'), undefined);
+    await assert.rejects(
+      registry.set(createSession('../secret')),
+      (error: unknown) => error instanceof VerstkaValidationError && error.code === 'INVALID_ID'
+    );
+  });
+
+  it('treats an unsafe revision ID as unknown', async () => {
+    const store = new FileRevisionStore({ dir });
+
+    assert.equal(await store.get('article-1', '../../secret'), undefined);
+    await assert.rejects(
+      store.add('article-1', { id: '../x', materialId: 'article-1', isMobile: false, htmlBody: '', createdAt: 0 }, {}),
+      { code: 'INVALID_ID' }
+    );
+  });
+
+  it('rejects an asset hash that is not a SHA-256 digest', async () => {
+    const cache = new FileAssetCache({ dir });
+
+    await assert.rejects(cache.restore('../secret', path.join(dir, 'out')), { code: 'INVALID_HASH' });
+  });
+
+  it('rejects a storage key outside the root directory', async () => {
+    const storage = new LocalStorageAdapter({ rootDir: path.join(dir, 'public') });
+    const source = path.join(dir, 'image.png');
+    await fs.writeFile(source, 'png');
+
+    await assert.rejects(storage.put('../image.png', source), { code: 'INVALID_STORAGE_KEY' });
+  });
+});
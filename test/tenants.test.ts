@@ -0,0 +1,104 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { TenantRegistry, VerstkaSignatureError } from '../src/index.js';
+import { startMockVerstkaServer } from '../src/testing.js';
+import type { MockVerstkaServer } from '../src/testing.js';
+import { CALLBACK_URL, createPng } from './helpers.js';
+
+describe('tenant resolution', () => {
+  let news: MockVerstkaServer;
+  let sport: MockVerstkaServer;
+  let tenants: TenantRegistry;
+
+  before(async () => {
+    news = await startMockVerstkaServer({ apiKey: 'news-key', secret: 'news-secret' });
+    sport = await startMockVerstkaServer({ apiKey: 'sport-key', secret: 'sport-secret' });
+    tenants = new TenantRegistry({
+      defaults: { callbackUrl: CALLBACK_URL, logLevel: 'silent', downloadRetryDelay: 10 },
+      tenants: [
+        { id: 'news', ...news.getSdkOptions(), hosts: ['news.example.com'] },
+        { id: 'sport', ...sport.getSdkOptions(), hosts: ['sport.example.com'] },
+      ],
+    });
+  });
+
+  after(async () => {
+    await Promise.all([news.stop(), sport.stop()]);
+  });
+
+  beforeEach(() => {
+    news.reset();
+    sport.reset();
+  });
+
+  /**
+   * Signed callback of a tenant's mock server with one file
+   */
+  const createCallback = (server: MockVerstkaServer, tenantId?: string) => server.createCallback({
+    materialId: 'article-1',
+    callbackUrl: CALLBACK_URL,
+    files: { 'image.png': createPng() },
+    ...(tenantId ? { customFields: { mobile: '' as const, tenant_id: tenantId } } : {}),
+  });
+
+  it('opens editors with the tenant ID in custom fields', async () => {
+    await tenants.getEditorUrl('sport', {
+      materialId: 'article-1',
+      userId: 'user-1',
+      callbackUrl: CALLBACK_URL,
+      hostName: 'https://sport.example.com',
+      isMobile: false,
+    });
+
+    assert.equal(news.sessions.length, 0);
+    assert.equal(sport.sessions[0]?.customFields?.tenant_id, 'sport');
+  });
+
+  it('routes a callback by the tenant custom field', async () => {
+    const result = await tenants.save(createCallback(sport, 'sport'), async () => undefined, {
+      host: 'news.example.com',
+    });
+
+    assert.equal(result.outcome, 'saved');
+    assert.ok(sport.requests.length > 0);
+    assert.equal(news.requests.length, 0);
+  });
+
+  it('routes a callback by the request host', async () => {
+    const result = await tenants.save(createCallback(news), async () => undefined, {
+      host: 'News.Example.com:443',
+    });
+
+    assert.equal(result.outcome, 'saved');
+    assert.ok(news.requests.length > 0);
+  });
+
+  it('routes a callback by the only matching signature', async () => {
+    assert.equal(tenants.resolve({ callbackData: createCallback(sport) }), 'sport');
+
+    const result = await tenants.save(createCallback(sport), async () => undefined);
+
+    assert.equal(result.outcome, 'saved');
+  });
+
+  it('rejects a callback naming another tenant than the one that signed it', async () => {
+    await assert.rejects(
+      tenants.save(createCallback(news, 'sport'), async () => undefined),
+      (error: unknown) => error instanceof VerstkaSignatureError && error.code === 'INVALID_SIGNATURE'
+    );
+    assert.equal(news.requests.length, 0);
+  });
+
+  it('rejects a callback no tenant matches', async () => {
+    const other = await startMockVerstkaServer({ secret: 'other-secret' });
+
+    try {
+      await assert.rejects(
+        tenants.save(createCallback(other), async () => undefined, { host: 'unknown.example.com' }),
+        { code: 'UNKNOWN_TENANT' }
+      );
+    } finally {
+      await other.stop();
+    }
+  });
+});
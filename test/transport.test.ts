@@ -0,0 +1,150 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { NodeHttpTransport, withInterceptors } from '../src/index.js';
+import { startMockVerstkaServer } from '../src/testing.js';
+import type { MockVerstkaServer } from '../src/testing.js';
+import { CALLBACK_URL, createTestSdk } from './helpers.js';
+
+/**
+ * Request received by a test server
+ */
+interface ReceivedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+/**
+ * Start a server answering /old with a redirect to /new and anything else with its path
+ */
+async function startServer() {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    received.push({ url: req.url || '', headers: req.headers });
+
+    if (req.url === '/old') {
+      res.writeHead(302, { location: '/new' }).end();
+    } else {
+      res.end(`path ${req.url}`);
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    received,
+    stop: async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    },
+  };
+}
+
+describe('node transport', () => {
+  let target: Awaited<ReturnType<typeof startServer>>;
+  let transport: NodeHttpTransport;
+
+  beforeEach(async () => {
+    target = await startServer();
+    transport = new NodeHttpTransport({ proxy: false });
+  });
+
+  afterEach(async () => {
+    transport.close();
+    await target.stop();
+  });
+
+  it('follows redirects unless asked not to', async () => {
+    const followed = await transport.request({ url: `${target.url}/old` });
+    const manual = await transport.request({ url: `${target.url}/old`, redirect: 'manual' });
+
+    assert.equal(await followed.text(), 'path /new');
+    assert.equal(manual.status, 302);
+    assert.equal(manual.headers.get('location'), '/new');
+    await manual.body?.cancel();
+  });
+
+  it('sends plain HTTP requests through the proxy except for NO_PROXY hosts', async () => {
+    const proxy = await startServer();
+    const proxyUrl = new URL(proxy.url);
+    proxyUrl.username = 'user';
+    proxyUrl.password = 'secret';
+    const proxied = new NodeHttpTransport({ proxy: proxyUrl.toString(), noProxy: 'localhost' });
+
+    try {
+      const response = await proxied.request({ url: 'http://articles.example.com/page?id=1' });
+      const direct = await proxied.request({ url: target.url.replace('127.0.0.1', 'localhost') });
+
+      assert.equal(await response.text(), 'path http://articles.example.com/page?id=1');
+      assert.equal(proxy.received[0]?.headers.host, 'articles.example.com');
+      assert.equal(
+        proxy.received[0]?.headers['proxy-authorization'],
+        `Basic ${Buffer.from('user:secret').toString('base64')}`
+      );
+      assert.equal(await direct.text(), 'path /');
+      assert.equal(proxy.received.length, 1);
+    } finally {
+      proxied.close();
+      await proxy.stop();
+    }
+  });
+
+  it('adds default headers and runs interceptors in order', async () => {
+    const seen: string[] = [];
+    const wrapped = withInterceptors(transport, { 'X-Client': 'sdk', 'X-Trace': 'default' }, {
+      request: [
+        request => ({ ...request, headers: { ...request.headers, 'x-step': 'first' } }),
+        request => {
+          seen.push(request.headers?.['x-step'] || '');
+          return request;
+        },
+      ],
+      response: [
+        (response, request) => {
+          seen.push(`${response.status} ${request.url}`);
+          return response;
+        },
+      ],
+    });
+
+    const response = await wrapped.request({ url: `${target.url}/page`, headers: { 'x-trace': 'request' } });
+    await response.text();
+
+    assert.equal(target.received[0]?.headers['x-client'], 'sdk');
+    assert.equal(target.received[0]?.headers['x-trace'], 'request');
+    assert.deepEqual(seen, ['first', `200 ${target.url}/page`]);
+  });
+});
+
+describe('SDK transport options', () => {
+  let server: MockVerstkaServer;
+
+  before(async () => {
+    server = await startMockVerstkaServer();
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  it('applies default headers and interceptors to API calls', async () => {
+    const verstka = createTestSdk(server, {
+      headers: { 'X-Tenant': 'news' },
+      interceptors: {
+        request: [request => ({ ...request, headers: { ...request.headers, 'x-request-id': 'request-1' } })],
+      },
+    });
+
+    await verstka.getEditorUrl({
+      materialId: 'article-1',
+      userId: 'user-1',
+      callbackUrl: CALLBACK_URL,
+      hostName: 'https://example.com',
+      isMobile: false,
+    });
+
+    assert.equal(server.requests[0]?.headers['x-tenant'], 'news');
+    assert.equal(server.requests[0]?.headers['x-request-id'], 'request-1');
+  });
+});